@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ApiError, fetchProgramDiff } from '@/lib/api';
+import type { FieldChange, PrescriptionField, ProgramDiff, ThemeDiff } from '@shared/program-diff';
+
+/**
+ * "See what changed" behind the While-you-were-away card: GET
+ * /api/program/diff between the generation this device last saw and the one
+ * it has now, laid out per theme — sessions added to or gone from the queue,
+ * and revised sessions' swapped exercises and load/rep/set changes.
+ */
+
+const FIELD_LABELS: Record<PrescriptionField, string> = {
+  warmupSets: 'warm-up sets',
+  workingSets: 'working sets',
+  reps: 'reps',
+  targetLoad: 'load',
+  restSeconds: 'rest',
+};
+
+const formatValue = (change: FieldChange, value: string | number): string =>
+  change.field === 'restSeconds' ? `${value}s` : String(value);
+
+type DiffState =
+  | { kind: 'loading' }
+  | { kind: 'diff'; diff: ProgramDiff }
+  | { kind: 'failed'; message: string };
+
+interface ProgramDiffDialogProps {
+  from: number;
+  to: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ProgramDiffDialog: React.FC<ProgramDiffDialogProps> = ({ from, to, open, onOpenChange }) => {
+  const [state, setState] = useState<DiffState>({ kind: 'loading' });
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setState({ kind: 'loading' });
+    fetchProgramDiff(from, to)
+      .then((diff) => {
+        if (!cancelled) setState({ kind: 'diff', diff });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setState({
+          kind: 'failed',
+          message:
+            err instanceof ApiError
+              ? err.message
+              : "Couldn't reach the server — the changelog above is all there is offline.",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, from, to]);
+
+  const renderTheme = (theme: ThemeDiff) => (
+    <section key={theme.theme} className="border rounded-lg p-3">
+      <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{theme.theme}</h3>
+      <ul className="space-y-2 text-sm">
+        {theme.added.map((s) => (
+          <li key={`added-${s.id}`}>
+            <span className="font-medium text-green-700">New:</span> {s.name}
+          </li>
+        ))}
+        {theme.removed.map((s) => (
+          <li key={`removed-${s.id}`} className="text-gray-600">
+            <span className="font-medium">{s.performed ? 'Done:' : 'Dropped:'}</span> {s.name}
+          </li>
+        ))}
+        {theme.revised.map((r) => (
+          <li key={`revised-${r.to.id}`}>
+            <p className="font-medium">
+              {r.from.name === r.to.name ? r.to.name : `${r.from.name} → ${r.to.name}`}
+            </p>
+            <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+              {r.swapped.map((swap) => (
+                <li key={`swap-${swap.from}`}>
+                  Swapped {swap.from} for <span className="font-medium text-gray-800">{swap.to}</span>
+                </li>
+              ))}
+              {r.added.map((name) => (
+                <li key={`add-${name}`}>
+                  Added <span className="font-medium text-gray-800">{name}</span>
+                </li>
+              ))}
+              {r.removed.map((name) => (
+                <li key={`drop-${name}`}>Dropped {name}</li>
+              ))}
+              {r.changed.map((exercise) => (
+                <li key={`change-${exercise.name}`}>
+                  <span className="font-medium text-gray-800">{exercise.name}:</span>{' '}
+                  {exercise.changes
+                    .map(
+                      (c) => `${FIELD_LABELS[c.field]} ${formatValue(c, c.from)} → ${formatValue(c, c.to)}`
+                    )
+                    .join(', ')}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>What changed</DialogTitle>
+          <DialogDescription>
+            Point One's program, generation {from} → {to}
+          </DialogDescription>
+        </DialogHeader>
+        {state.kind === 'loading' && <p className="text-sm text-gray-400">Comparing…</p>}
+        {state.kind === 'failed' && <p className="text-sm text-gray-500">{state.message}</p>}
+        {state.kind === 'diff' &&
+          (state.diff.themes.length === 0 ? (
+            <p className="text-sm text-gray-500">The queue's prescriptions didn't change.</p>
+          ) : (
+            <div className="flex flex-col gap-3">{state.diff.themes.map(renderTheme)}</div>
+          ))}
+      </DialogContent>
+    </Dialog>
+  );
+};
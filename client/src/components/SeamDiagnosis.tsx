@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { ApiError, fetchDeepHealth, type DeepHealth } from '@/lib/api';
+
+/**
+ * What's actually wrong, for the "Can't reach Point One" screen: asks
+ * GET /api/health/deep and lists the checks that failed (an expired GitHub
+ * token, a wrong repo path, a program.json that doesn't parse…). Re-asks
+ * whenever `attempt` changes, i.e. after each "Try again".
+ */
+
+const CHECK_LABELS: Record<string, string> = {
+  repo: 'Repository',
+  'workout-dir': 'Workout folder',
+  git: 'Git',
+  branch: 'Branch',
+  github: 'GitHub',
+  token: 'GitHub token',
+  write: 'Write access',
+  'rate-limit': 'GitHub rate limit',
+  program: 'program.json',
+  outbox: 'Outbox',
+  push: 'Push',
+};
+
+type Diagnosis =
+  | { kind: 'checking' }
+  | { kind: 'health'; health: DeepHealth }
+  | { kind: 'unanswered'; message: string };
+
+export function SeamDiagnosis({ attempt }: { attempt: number }) {
+  const [diagnosis, setDiagnosis] = useState<Diagnosis>({ kind: 'checking' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiagnosis({ kind: 'checking' });
+    fetchDeepHealth()
+      .then((health) => {
+        if (!cancelled) setDiagnosis({ kind: 'health', health });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setDiagnosis({
+          kind: 'unanswered',
+          message:
+            err instanceof ApiError
+              ? `The server couldn't say what's wrong (${err.status}: ${err.message}).`
+              : "The server isn't answering — this phone is offline, or the deploy is down.",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt]);
+
+  if (diagnosis.kind === 'checking') {
+    return <p className="text-xs text-gray-400 mb-6">Checking what's wrong…</p>;
+  }
+  if (diagnosis.kind === 'unanswered') {
+    return <p className="text-xs text-gray-500 mb-6">{diagnosis.message}</p>;
+  }
+  const failing = diagnosis.health.checks.filter((c) => !c.ok);
+  if (failing.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 mb-6">
+        The server and Point One's store ({diagnosis.health.store}) look fine now — try again.
+      </p>
+    );
+  }
+  return (
+    <ul className="text-left text-xs mb-6 space-y-1">
+      {failing.map((check) => (
+        <li key={check.name} className="break-words">
+          <span className="font-medium text-red-600">{CHECK_LABELS[check.name] ?? check.name}:</span>{' '}
+          <span className="text-gray-600">{check.detail}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
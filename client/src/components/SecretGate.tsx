@@ -1,26 +1,39 @@
 import React, { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { getAppSecret, setAppSecret, clearAppSecret } from '@/lib/api';
+import {
+  getDeviceToken,
+  exchangeAccessCode,
+  signOutDevice,
+  takeLegacyAccessCode,
+  onUnauthorized,
+  ApiError,
+} from '@/lib/api';
 
 /**
- * Shell-level access-code gate. Wraps the whole app OUTSIDE the workout module
- * providers. On mount it reads localStorage["app_secret"]; if absent it renders
- * a single centered access-code prompt instead of the app. Once a code is set,
- * every /api/* call sends it as `x-app-secret` (centralized in lib/api.ts).
+ * Shell-level access gate. Wraps the whole app OUTSIDE the workout module
+ * providers. On mount it reads this device's token from localStorage; if
+ * absent it renders a single centered access-code prompt instead of the app.
+ * The code is traded once for a per-device token (lib/api.ts), which every
+ * /api/* call then sends. A 401 from any call — token revoked from the admin
+ * list, or lost — drops the token and brings the gate back.
  *
- * This is intentionally NOT real auth — it is a single shared code for a
- * single-user personal tool. The backend only enforces it when APP_SECRET is set.
+ * A server with several athletes answers a shared code with 400 "Which
+ * athlete?"; the prompt then asks for the athlete's name too. (An athlete's
+ * own code needs no name.)
+ *
+ * This is intentionally NOT real auth — it is a personal tool's lock. The
+ * backend only enforces it when an access code is configured.
  */
 
 interface SecretGateContextValue {
-  /** Clear the stored code and return to the gate (the "sign out" affordance). */
+  /** Sign this device out (revoking its token) and return to the gate. */
   forgetCode: () => void;
 }
 
 const SecretGateContext = createContext<SecretGateContextValue | undefined>(undefined);
 
-/** Access the gate controls (e.g. a "forget access code" menu item). */
+/** Access the gate controls (e.g. a "sign out" menu item). */
 export function useSecretGate(): SecretGateContextValue {
   const ctx = useContext(SecretGateContext);
   if (!ctx) {
@@ -30,31 +43,98 @@ export function useSecretGate(): SecretGateContextValue {
 }
 
 export function SecretGate({ children }: { children: ReactNode }) {
-  const [hasSecret, setHasSecret] = useState<boolean>(() => !!getAppSecret());
+  const [hasToken, setHasToken] = useState<boolean>(() => !!getDeviceToken());
   const [input, setInput] = useState('');
+  /** Shown once the server asks which athlete a shared code is for. */
+  const [askAthlete, setAskAthlete] = useState(false);
+  const [athlete, setAthlete] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  /** Epoch ms the server's lockout ends (after too many wrong codes), if any. */
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while locked out so the countdown stays honest and the form comes
+  // back by itself when the lockout ends.
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
 
-  // Keep state in sync if the code is cleared/set in another tab.
+  // Keep state in sync if the token is cleared/set in another tab, and go back
+  // to the prompt when the server stops accepting it.
   useEffect(() => {
-    const onStorage = () => setHasSecret(!!getAppSecret());
+    const onStorage = () => setHasToken(!!getDeviceToken());
     window.addEventListener('storage', onStorage);
-    return () => window.removeEventListener('storage', onStorage);
+    const unsubscribe = onUnauthorized(() => {
+      setHasToken(false);
+      setError('This device was signed out. Enter the access code to sign back in.');
+    });
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      unsubscribe();
+    };
+  }, []);
+
+  // A code saved by an older version of the app: trade it silently.
+  useEffect(() => {
+    if (hasToken) return;
+    const legacy = takeLegacyAccessCode();
+    if (legacy) void signIn(legacy);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const signIn = async (code: string) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await exchangeAccessCode(code, undefined, askAthlete ? athlete.trim().toLowerCase() : undefined);
+      setInput('');
+      setHasToken(true);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429) {
+        setNow(Date.now());
+        setLockedUntil(Date.now() + (err.retryAfterMs ?? 60_000));
+        setError(null);
+      } else if (err instanceof ApiError && err.status === 400 && !askAthlete) {
+        setAskAthlete(true);
+        setError('This code is shared — whose workouts are these?');
+      } else if (err instanceof ApiError && err.status === 404) {
+        setError(`There's no athlete called "${athlete.trim()}".`);
+      } else {
+        setError(
+          err instanceof ApiError && err.status === 401
+            ? 'That access code is not right.'
+            : `Could not sign in: ${(err as Error).message}`
+        );
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const submit = (e?: React.FormEvent) => {
     e?.preventDefault();
     const code = input.trim();
-    if (!code) return;
-    setAppSecret(code);
-    setInput('');
-    setHasSecret(true);
+    if (!code || submitting || lockedUntil !== null || (askAthlete && !athlete.trim())) return;
+    void signIn(code);
   };
 
   const forgetCode = () => {
-    clearAppSecret();
-    setHasSecret(false);
+    void signOutDevice();
+    setHasToken(false);
   };
 
-  if (!hasSecret) {
+  if (!hasToken) {
+    const lockedMinutes =
+      lockedUntil !== null ? Math.max(1, Math.ceil((lockedUntil - now) / 60_000)) : 0;
     return (
       <div className="flex min-h-screen items-center justify-center bg-white px-4">
         <form
@@ -72,9 +152,32 @@ export function SecretGate({ children }: { children: ReactNode }) {
             placeholder="Access code"
             autoFocus
             aria-label="Access code"
+            disabled={lockedUntil !== null}
           />
-          <Button type="submit" disabled={!input.trim()}>
-            Continue
+          {askAthlete && (
+            <Input
+              value={athlete}
+              onChange={(e) => setAthlete(e.target.value)}
+              placeholder="Athlete"
+              autoCapitalize="none"
+              aria-label="Athlete"
+              disabled={lockedUntil !== null}
+            />
+          )}
+          {lockedUntil !== null ? (
+            <p className="text-sm text-red-600">
+              Too many attempts — try again in {lockedMinutes} minute{lockedMinutes === 1 ? '' : 's'}.
+            </p>
+          ) : (
+            error && <p className="text-sm text-red-600">{error}</p>
+          )}
+          <Button
+            type="submit"
+            disabled={
+              !input.trim() || (askAthlete && !athlete.trim()) || submitting || lockedUntil !== null
+            }
+          >
+            {submitting ? 'Signing in…' : 'Continue'}
           </Button>
         </form>
       </div>
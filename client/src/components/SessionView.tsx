@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { PrescribedSession, PerformedSession, SetResult, Exercise, SessionStatus } from '@/types/workout';
+import { PrescribedSession, PerformedSession, SetResult, Exercise, SessionStatus, CommitReceipt } from '@/types/workout';
 import { ExerciseView } from './ExerciseView';
 import { ExerciseProgressGrid } from './ExerciseProgressGrid';
 import { SwipeToFinish } from './SwipeToFinish';
@@ -26,6 +26,12 @@ import { Textarea } from '@/components/ui/textarea';
 interface SessionViewProps {
   session: PrescribedSession | PerformedSession;
   status: SessionStatus;
+  /** Why delivery was refused for good, if it was — shown instead of "will deliver". */
+  deliveryError?: string;
+  /** The failed delivery's X-Request-Id, shown as a ref to look up in the server log. */
+  deliveryRequestId?: string;
+  /** The commit that delivered it, shown (and linked, when there's a page) as proof it reached git. */
+  commit?: CommitReceipt;
   /** False for ingested history and past sealed sessions — view-only journal. */
   editable: boolean;
   /** All performed records (for last-time placeholders + exercise history). */
@@ -47,6 +53,9 @@ interface SessionViewProps {
 export const SessionView: React.FC<SessionViewProps> = ({
   session,
   status,
+  deliveryError,
+  deliveryRequestId,
+  commit,
   editable,
   performedRecords,
   onAddSet,
@@ -85,10 +94,36 @@ export const SessionView: React.FC<SessionViewProps> = ({
     switch (status) {
       case 'ingested':
         return `Ingested ✓ · trained ${performed.performedDate}`;
-      case 'delivered':
-        return `Delivered ✓ — Point One picks this up on its next pass`;
-      case 'departed':
-        return `Saved on this device — will deliver when Point One is reachable`;
+      case 'delivered': {
+        if (!commit) return `Delivered ✓ — Point One picks this up on its next pass`;
+        const short = commit.sha.slice(0, 7);
+        return (
+          <>
+            Delivered ✓ in commit{' '}
+            {commit.url ? (
+              <a
+                href={commit.url}
+                target="_blank"
+                rel="noreferrer"
+                className="font-mono underline underline-offset-2 hover:text-gray-700"
+              >
+                {short}
+              </a>
+            ) : (
+              <span className="font-mono">{short}</span>
+            )}{' '}
+            — Point One picks this up on its next pass
+          </>
+        );
+      }
+      case 'departed': {
+        const ref = deliveryRequestId ? ` (ref ${deliveryRequestId.slice(0, 8)})` : '';
+        return deliveryError
+          ? `Saved on this device — Point One can't accept it: ${deliveryError}${ref}`
+          : `Saved on this device — will deliver when Point One is reachable${ref}`;
+      }
+      case 'spooled':
+        return `Sent — the server is holding it and will commit it when Point One's repo is reachable`;
       case 'in-progress':
         return null;
       case 'planned':
@@ -4,13 +4,26 @@ import {
   PrescribedSession,
   PerformedSession,
   LocalSession,
+  DeliveryOutcome,
+  CommitReceipt,
   SetResult,
   Exercise,
   SessionStatus,
 } from '@/types/workout';
-import { loadState, saveState, StoredState } from '@/utils/localStorage';
-import { todayPT, logFileName } from '@/utils/timeHelpers';
-import { fetchProgram, postSession } from '@/lib/api';
+import { loadState, saveState, storageKey, StoredState } from '@/utils/localStorage';
+import { athleteTimeZone, athleteToday, logFileName, setAthleteTimeZone } from '@/utils/timeHelpers';
+import {
+  fetchProgram,
+  postSession,
+  fetchReceipt,
+  fetchSessions,
+  fetchSessionRecord,
+  ApiError,
+  type SessionsResponse,
+} from '@/lib/api';
+import { subscribeProgramChanges } from '@/lib/programSocket';
+import { performedSessionSchema, contractIssues } from '@shared/seam';
+import { negotiateSchema, upgradeEnvelope } from '@shared/seam-migrations';
 
 const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
 
@@ -27,7 +40,14 @@ const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
  * journal of record.
  */
 export const useWorkoutProgram = () => {
-  const [state, setState] = useState<StoredState>(() => loadState());
+  // Whose cache this is — fixed for the life of the hook (see storageKey).
+  const [cacheKey] = useState(storageKey);
+  const [state, setState] = useState<StoredState>(() => {
+    const loaded = loadState(cacheKey);
+    // Date new sessions in the last zone we were told, before the first pull.
+    setAthleteTimeZone(loaded.timeZone);
+    return loaded;
+  });
   const [initializing, setInitializing] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
@@ -40,39 +60,100 @@ export const useWorkoutProgram = () => {
       const next = fn(prev);
       if (next !== prev) {
         stateRef.current = next;
-        saveState(next);
+        saveState(next, cacheKey);
       }
       return next;
     });
-  }, []);
+  }, [cacheKey]);
 
-  // ----- delivery (saved → delivered) --------------------------------------
+  // ----- delivery (saved → spooled → delivered) -----------------------------
 
+  /**
+   * Deliver one sealed record; resolves with its delivery state afterwards,
+   * plus the server's request id when the attempt failed.
+   */
   const deliverSession = useCallback(
-    async (sessionId: string): Promise<boolean> => {
+    async (sessionId: string): Promise<DeliveryOutcome> => {
       const ls = stateRef.current.local[sessionId];
-      if (!ls || !ls.record.sealed || ls.delivery === 'delivered') return ls?.delivery === 'delivered';
-      if (inFlight.current.has(sessionId)) return false;
+      if (!ls || !ls.record.sealed || ls.delivery === 'delivered') return { delivery: ls?.delivery ?? 'saved' };
+      if (inFlight.current.has(sessionId)) return { delivery: ls.delivery };
       inFlight.current.add(sessionId);
-      try {
-        const payload = ls.record;
-        const res = await postSession(payload);
-        if (!res.ok) return false;
-        const deliveredAs = res.path.split('/').pop() ?? logFileName(payload.name, payload.performedDate);
+      const payload = ls.record;
+      // Every outcome applies only if the record is still the content we sent —
+      // it may have been amended while the request was in flight.
+      const settle = (changes: Partial<LocalSession>) =>
         update((s) => {
           const current = s.local[sessionId];
-          // The record may have been amended while the POST was in flight —
-          // only mark delivered if it's still the same content we sent.
           if (!current || JSON.stringify(current.record) !== JSON.stringify(payload)) return s;
-          return {
-            ...s,
-            local: { ...s.local, [sessionId]: { ...current, delivery: 'delivered', deliveredAs } },
-          };
+          return { ...s, local: { ...s.local, [sessionId]: { ...current, ...changes } } };
+        });
+      const markDelivered = (path: string, commit?: CommitReceipt) =>
+        settle({
+          delivery: 'delivered',
+          deliveredAs: path.split('/').pop() ?? logFileName(payload.name, payload.performedDate),
+          commit,
+          receiptId: undefined,
+          deliveryError: undefined,
+          deliveryRequestId: undefined,
         });
-        return true;
+      // A failure retrying can't fix stays on the record (kept on device) so
+      // the session view can say why, until the record changes or delivers.
+      const markUndeliverable = (deliveryError: string, deliveryRequestId?: string) =>
+        settle({ deliveryError, deliveryRequestId });
+      try {
+        // Already in the server's outbox: ask how it's going rather than
+        // sending it again. A receipt the server no longer knows (a redeploy
+        // lost the spool), one a newer record replaced, or one the store
+        // refused for good means deliver afresh (a refusal then says why).
+        if (ls.delivery === 'spooled' && ls.receiptId) {
+          const receipt = await fetchReceipt(ls.receiptId);
+          if (receipt?.state === 'spooled') return { delivery: 'spooled' };
+          if ((receipt?.state === 'committed' || receipt?.state === 'written') && receipt.result) {
+            markDelivered(receipt.result.path, receipt.result.commit);
+            return { delivery: 'delivered' };
+          }
+        }
+        // Same contract the server enforces: a record that can't pass it would
+        // only bounce with a 422, so keep it on device and say why instead.
+        const check = performedSessionSchema.safeParse(payload);
+        if (!check.success) {
+          const issues = contractIssues(check.error);
+          console.warn('Record fails the seam contract (kept on device):', issues);
+          markUndeliverable(`Record is malformed (${issues.map((i) => i.path).join(', ')})`);
+          return { delivery: 'saved' };
+        }
+        let schema: number;
+        try {
+          schema = negotiateSchema(stateRef.current.serverSchemas);
+        } catch (err) {
+          // The server only takes schemas this version can't write.
+          markUndeliverable((err as Error).message);
+          return { delivery: 'saved' };
+        }
+        const res = await postSession(payload, schema);
+        if (!res.ok) return { delivery: 'saved' };
+        if (res.spooled) {
+          // Second safety net: the server holds it durably and keeps trying the
+          // store; the local copy stays until the commit is confirmed.
+          settle({
+            delivery: 'spooled',
+            receiptId: res.receiptId,
+            deliveryError: undefined,
+            deliveryRequestId: undefined,
+          });
+          return { delivery: 'spooled' };
+        }
+        markDelivered(res.path, res.commit);
+        return { delivery: 'delivered' };
       } catch (err) {
-        console.warn('Delivery failed (kept on device, will retry):', err);
-        return false;
+        if (err instanceof ApiError && !err.retryable) {
+          console.warn('Delivery refused (kept on device):', err);
+          markUndeliverable(err.message, err.requestId);
+        } else {
+          console.warn('Delivery failed (kept on device, will retry):', err);
+          if (err instanceof ApiError) settle({ deliveryRequestId: err.requestId });
+        }
+        return { delivery: ls.delivery, requestId: err instanceof ApiError ? err.requestId : undefined };
       } finally {
         inFlight.current.delete(sessionId);
       }
@@ -80,10 +161,10 @@ export const useWorkoutProgram = () => {
     [update]
   );
 
-  /** Retry path: deliver every sealed-but-undelivered record. */
+  /** Retry path: deliver every sealed-but-undelivered record (and check on spooled ones). */
   const deliverPending = useCallback(async () => {
     const pending = Object.entries(stateRef.current.local).filter(
-      ([, ls]) => ls.record.sealed && ls.delivery === 'saved'
+      ([, ls]) => ls.record.sealed && ls.delivery !== 'delivered'
     );
     for (const [id] of pending) {
       await deliverSession(id);
@@ -96,15 +177,15 @@ export const useWorkoutProgram = () => {
    * Auto-seal (D7): a session with logged sets that idled past the end of its
    * local calendar day seals itself; the departure tap improves the record,
    * the data never depends on it. Started-but-empty stale records are
-   * discarded — no facts, no record.
+   * discarded — no facts, no record. "Its day" is judged in the session's own
+   * zone, so a session begun before a flight ends when that day ends.
    */
   const sealStale = useCallback(() => {
-    const today = todayPT();
     update((s) => {
       let changed = false;
       const local = { ...s.local };
       for (const [id, ls] of Object.entries(local)) {
-        if (ls.record.sealed || ls.record.performedDate >= today) continue;
+        if (ls.record.sealed || ls.record.performedDate >= athleteToday(ls.record.timeZone)) continue;
         const hasSets = ls.record.exercises.some((ex) => (ex.sets || []).length > 0);
         if (hasSets) {
           local[id] = {
@@ -123,9 +204,9 @@ export const useWorkoutProgram = () => {
 
   /** "Done for today" (D6): seal with an optional felt-note, then deliver eagerly. */
   const departSession = useCallback(
-    async (sessionId: string, note?: string): Promise<{ delivered: boolean }> => {
+    async (sessionId: string, note?: string): Promise<DeliveryOutcome> => {
       const ls = stateRef.current.local[sessionId];
-      if (!ls) return { delivered: false };
+      if (!ls) return { delivery: 'saved' };
       update((s) => {
         const current = s.local[sessionId];
         if (!current) return s;
@@ -138,8 +219,7 @@ export const useWorkoutProgram = () => {
         };
         return { ...s, local: { ...s.local, [sessionId]: { ...current, record, delivery: 'saved' } } };
       });
-      const delivered = await deliverSession(sessionId);
-      return { delivered };
+      return deliverSession(sessionId);
     },
     [update, deliverSession]
   );
@@ -147,7 +227,13 @@ export const useWorkoutProgram = () => {
   // ----- the program (pull + truth-transfer) --------------------------------
 
   const applyEnvelope = useCallback(
-    (envelope: ProgramEnvelope) => {
+    (
+      envelope: ProgramEnvelope,
+      etag: string | null,
+      timeZone: string | null,
+      serverSchemas: number[] | null
+    ) => {
+      setAthleteTimeZone(timeZone);
       update((s) => {
         const local = { ...s.local };
         for (const [id, ls] of Object.entries(local)) {
@@ -162,6 +248,9 @@ export const useWorkoutProgram = () => {
         return {
           ...s,
           program: envelope,
+          programETag: etag,
+          timeZone,
+          serverSchemas,
           local,
           lastFetchedAt: new Date().toISOString(),
           lastSeenGeneration: s.lastSeenGeneration ?? envelope.generation,
@@ -173,14 +262,31 @@ export const useWorkoutProgram = () => {
 
   const fetchAndApply = useCallback(async (): Promise<{ ok: boolean; error?: string }> => {
     try {
-      const envelope = await fetchProgram();
-      if (!envelope || envelope.schema !== 2 || !Array.isArray(envelope.queue)) {
-        const error =
-          'Point One sent a program this app version does not understand (expected schema 2).';
+      const current = stateRef.current;
+      const result = await fetchProgram(current.program ? current.programETag : null);
+      if (!result.changed) {
+        // 304: the cached program is current — nothing to re-apply, but the
+        // freshness line should still say we just checked.
+        update((s) => ({ ...s, lastFetchedAt: new Date().toISOString() }));
+        setFetchError(null);
+        return { ok: true };
+      }
+      // An older schema is up-converted here; a newer one than this app
+      // knows is refused with a message that says to update.
+      let envelope: ProgramEnvelope;
+      try {
+        envelope = upgradeEnvelope(result.program) as ProgramEnvelope;
+      } catch (err) {
+        const error = `Point One sent a program this app version does not understand — reload to update. (${(err as Error).message})`;
         setFetchError(error);
         return { ok: false, error };
       }
-      applyEnvelope(envelope);
+      if (!Array.isArray(envelope.queue)) {
+        const error = 'Point One sent a program without a queue.';
+        setFetchError(error);
+        return { ok: false, error };
+      }
+      applyEnvelope(envelope, result.etag, result.timeZone, result.schemas);
       setFetchError(null);
       return { ok: true };
     } catch (err) {
@@ -188,7 +294,64 @@ export const useWorkoutProgram = () => {
       setFetchError(error);
       return { ok: false, error };
     }
-  }, [applyEnvelope]);
+  }, [applyEnvelope, update]);
+
+  /**
+   * Rehydration: iOS may evict localStorage after ~7 days (see
+   * utils/localStorage.ts). If that lands between delivery and ingestion, the
+   * record is in git but neither here nor in the program's history. Ask the
+   * store for log files the current program hasn't ingested and rebuild any
+   * missing LocalSession as delivered — device truth already on the device
+   * always wins, and a store that can't list (501) just skips this.
+   */
+  const rehydrateDelivered = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current.program) return;
+    let listing: SessionsResponse;
+    try {
+      listing = await fetchSessions();
+    } catch (err) {
+      if (!(err instanceof ApiError && err.status === 501)) {
+        console.warn('Could not list delivered sessions for rehydration:', err);
+      }
+      return;
+    }
+    const known = new Set(
+      Object.values(current.local).map(
+        (ls) => ls.deliveredAs ?? logFileName(ls.record.name, ls.record.performedDate)
+      )
+    );
+    const missing = listing.sessions.filter((s) => s.ingested === false && !known.has(s.fileName));
+    const recovered: Record<string, LocalSession> = {};
+    for (const { fileName, commit } of missing) {
+      try {
+        const parsed = performedSessionSchema.safeParse(await fetchSessionRecord(fileName));
+        if (!parsed.success) continue;
+        recovered[parsed.data.id] = {
+          record: parsed.data,
+          delivery: 'delivered',
+          deliveredAs: fileName,
+          ...(commit ? { commit: { sha: commit.sha } } : {}),
+        };
+      } catch (err) {
+        console.warn(`Could not read back ${fileName}:`, err);
+      }
+    }
+    if (Object.keys(recovered).length === 0) return;
+    update((s) => {
+      let changed = false;
+      const local = { ...s.local };
+      for (const [id, ls] of Object.entries(recovered)) {
+        const ingested = s.program?.history.some(
+          (h) => h.id === id && h.performedDate === ls.record.performedDate
+        );
+        if (local[id] || ingested) continue;
+        local[id] = ls;
+        changed = true;
+      }
+      return changed ? { ...s, local } : s;
+    });
+  }, [update]);
 
   /** Manual pull (debug action — D1 demotes it; the sync loop is the real path). */
   const pullProgram = fetchAndApply;
@@ -202,7 +365,8 @@ export const useWorkoutProgram = () => {
 
   // ----- the sync loop (D1: no sync verb) ------------------------------------
   //
-  // Fetch on open, focus, and coming back online; auto-apply — applyEnvelope is
+  // Fetch on open, focus, coming back online, and when the server pushes word
+  // of a new generation; auto-apply — applyEnvelope is
   // merge-safe by construction (D2): it never touches a device-truth record,
   // it only replaces brain-owned queue state and drops local copies the brain
   // has ingested. Each boundary also seals yesterday's sessions and retries
@@ -231,8 +395,22 @@ export const useWorkoutProgram = () => {
       // top of a cache are non-blocking staleness, not failures.
       await syncTick({ force: true });
       if (!cancelled) setInitializing(false);
+      // Once per app start, after the program is in hand: recover delivered
+      // records an evicted localStorage lost (non-blocking).
+      if (!cancelled) void rehydrateDelivered();
     })();
 
+    // Live push: when the brain publishes a new generation, pull it now rather
+    // than on the next focus — the "while you were away" card shows up
+    // between sets without reopening the app.
+    const unsubscribe = subscribeProgramChanges((change) => {
+      const current = stateRef.current.program;
+      if (current && current.generation === change.generation && current.generatedAt === change.generatedAt) {
+        return;
+      }
+      void fetchAndApply();
+    });
+
     const onVisible = () => {
       if (document.visibilityState === 'visible') void syncTick();
     };
@@ -246,6 +424,7 @@ export const useWorkoutProgram = () => {
       document.removeEventListener('visibilitychange', onVisible);
       window.removeEventListener('focus', onFocus);
       window.removeEventListener('online', onOnline);
+      unsubscribe();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -273,8 +452,10 @@ export const useWorkoutProgram = () => {
           if (!prescription) return s;
           base = {
             ...clone(prescription),
-            performedDate: todayPT(),
+            performedDate: athleteToday(),
+            timeZone: athleteTimeZone(),
             startedAt: new Date().toISOString(),
+            programGeneration: s.program?.generation,
           };
         }
         let record = fn(clone(base));
@@ -304,8 +485,9 @@ export const useWorkoutProgram = () => {
           const hadSets = record.exercises.some((ex) => (ex.sets || []).length > 0);
           const next: PerformedSession = {
             ...record,
-            // performedDate is the PT date of the FIRST logged set (D8).
-            ...(hadSets ? {} : { performedDate: todayPT() }),
+            // performedDate is the date of the FIRST logged set, in the
+            // athlete's zone at that moment — travel later never re-dates it (D8).
+            ...(hadSets ? {} : { performedDate: athleteToday(), timeZone: athleteTimeZone() }),
             startedAt: record.startedAt || new Date().toISOString(),
             exercises: record.exercises.map((ex) =>
               ex.id === exerciseId ? { ...ex, sets: [...ex.sets, set] } : ex
@@ -438,7 +620,8 @@ export const useWorkoutProgram = () => {
           const hasSets = ls.record.exercises.some((ex) => (ex.sets || []).length > 0);
           return hasSets ? 'in-progress' : 'planned';
         }
-        return ls.delivery === 'delivered' ? 'delivered' : 'departed';
+        if (ls.delivery === 'delivered') return 'delivered';
+        return ls.delivery === 'spooled' ? 'spooled' : 'departed';
       }
       if (program?.history.some((h) => h.id === sessionId)) return 'ingested';
       return 'planned';
@@ -448,9 +631,27 @@ export const useWorkoutProgram = () => {
 
   /** Look a session up anywhere: device-truth first, then queue, then history. */
   const getSession = useCallback(
-    (sessionId: string): { session: PrescribedSession | PerformedSession; status: SessionStatus; isLocal: boolean } | null => {
+    (
+      sessionId: string
+    ): {
+      session: PrescribedSession | PerformedSession;
+      status: SessionStatus;
+      isLocal: boolean;
+      deliveryError?: string;
+      deliveryRequestId?: string;
+      commit?: CommitReceipt;
+    } | null => {
       const ls = local[sessionId];
-      if (ls) return { session: ls.record, status: statusOf(sessionId), isLocal: true };
+      if (ls) {
+        return {
+          session: ls.record,
+          status: statusOf(sessionId),
+          isLocal: true,
+          deliveryError: ls.deliveryError,
+          deliveryRequestId: ls.deliveryRequestId,
+          commit: ls.commit,
+        };
+      }
       const queued = program?.queue.find((q) => q.id === sessionId);
       if (queued) return { session: queued, status: 'planned', isLocal: false };
       const history = program?.history.find((h) => h.id === sessionId);
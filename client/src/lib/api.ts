@@ -1,19 +1,38 @@
 /**
  * Base API client for making requests to the backend git seam.
  *
- * Every /api/* call routes through `apiRequest`, which attaches the stored
- * access code as the `x-app-secret` header. The code is set by the shell-level
- * SecretGate (see components/SecretGate.tsx) and lives in localStorage.
+ * Every /api/* call routes through `apiRequest`, which attaches this device's
+ * token as `Authorization: Bearer`. The token comes from trading the access
+ * code once (exchangeAccessCode, called by the shell-level SecretGate — see
+ * components/SecretGate.tsx) and lives in localStorage. A 401 means the token
+ * is gone or revoked: it's dropped and the gate is told to ask again.
  */
 
-import type { ProgramEnvelope, PerformedSession } from '@/types/workout';
+import type { ProgramEnvelope, PerformedSession, CommitReceipt } from '@/types/workout';
+import type { ContractIssue } from '@shared/seam';
+import type { ProgramDiff } from '@shared/program-diff';
+import { downgradeSession } from '@shared/seam-migrations';
 
-const SECRET_KEY = 'app_secret';
+const DEVICE_TOKEN_KEY = 'device_token';
+/** The athlete the token was minted for (server/lib/athletes). */
+const DEVICE_ATHLETE_KEY = 'device_athlete';
+/** Where the shared access code itself used to be kept (pre device tokens). */
+const LEGACY_SECRET_KEY = 'app_secret';
 
 export class ApiError extends Error {
   constructor(
     public status: number,
-    message: string
+    message: string,
+    /**
+     * Whether trying again later can succeed. The server says so explicitly
+     * for store failures; otherwise 5xx / 429 / 408 are worth a retry and any
+     * other 4xx (e.g. a 422 contract rejection) never will be.
+     */
+    public retryable: boolean = status >= 500 || status === 429 || status === 408,
+    /** The server's Retry-After, when it sent one (e.g. an access-code lockout). */
+    public retryAfterMs?: number,
+    /** The server's X-Request-Id — the key to this call's line in the server log. */
+    public requestId?: string
   ) {
     super(message);
     this.name = 'ApiError';
@@ -24,23 +43,139 @@ export interface ApiRequestOptions extends RequestInit {
   // Add any custom options here if needed
 }
 
-/** Read the stored access code (set by the SecretGate). */
-export function getAppSecret(): string | null {
+/** Read this device's token (set by the SecretGate after sign-in). */
+export function getDeviceToken(): string | null {
   try {
-    return localStorage.getItem(SECRET_KEY);
+    return localStorage.getItem(DEVICE_TOKEN_KEY);
   } catch {
     return null;
   }
 }
 
-/** Store the access code (called by the SecretGate on submit). */
-export function setAppSecret(secret: string): void {
-  localStorage.setItem(SECRET_KEY, secret);
+/**
+ * The athlete this device is signed in as — whose program and log every call
+ * reaches. Null for a token from before the server had athletes.
+ */
+export function getDeviceAthlete(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_ATHLETE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Forget this device's token locally (see signOutDevice for the server side). */
+export function clearDeviceToken(): void {
+  localStorage.removeItem(DEVICE_TOKEN_KEY);
+  localStorage.removeItem(DEVICE_ATHLETE_KEY);
+}
+
+/**
+ * An access code stored by an older version of the app, removed as it's read.
+ * The gate trades it for a device token so an upgrade doesn't mean a re-prompt.
+ */
+export function takeLegacyAccessCode(): string | null {
+  try {
+    const code = localStorage.getItem(LEGACY_SECRET_KEY);
+    localStorage.removeItem(LEGACY_SECRET_KEY);
+    return code;
+  } catch {
+    return null;
+  }
+}
+
+const unauthorizedListeners = new Set<() => void>();
+
+/** Be told when the server rejects this device's token (the gate subscribes). */
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+/**
+ * Trade an access code for this device's own token and store it, with the
+ * athlete it was minted for. Throws an ApiError: 401 for a wrong code, 400
+ * when a shared code needs `athlete` (the server has several), 404 for an
+ * unknown athlete.
+ */
+export async function exchangeAccessCode(code: string, name?: string, athlete?: string): Promise<void> {
+  const response = await fetch('/api/auth/device', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code, ...(name ? { name } : {}), ...(athlete ? { athlete } : {}) }),
+  });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  const { token, device } = (await response.json()) as { token: string; device: { athlete?: string } };
+  localStorage.setItem(DEVICE_TOKEN_KEY, token);
+  if (device.athlete) {
+    localStorage.setItem(DEVICE_ATHLETE_KEY, device.athlete);
+  } else {
+    localStorage.removeItem(DEVICE_ATHLETE_KEY);
+  }
+}
+
+/** Sign this device out: revoke its token server-side (best effort), then forget it. */
+export async function signOutDevice(): Promise<void> {
+  try {
+    await apiFetch('/auth/device', { method: 'DELETE' });
+  } catch {
+    // Offline — the token is still forgotten here; revoke it from the admin list.
+  }
+  clearDeviceToken();
 }
 
-/** Forget the access code (the "sign out" affordance). */
-export function clearAppSecret(): void {
-  localStorage.removeItem(SECRET_KEY);
+/**
+ * fetch() an /api endpoint with the device token attached. Resolves with the
+ * raw Response (any status) — callers that need more than "ok or throw"
+ * (e.g. a conditional GET's 304) start here. A 401 drops the token and
+ * notifies the gate before the caller sees it.
+ */
+async function apiFetch(endpoint: string, options?: ApiRequestOptions): Promise<Response> {
+  const token = getDeviceToken();
+  const response = await fetch(`/api${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options?.headers,
+    },
+  });
+  if (response.status === 401) {
+    clearDeviceToken();
+    unauthorizedListeners.forEach((listener) => listener());
+  }
+  return response;
+}
+
+/**
+ * Turn a non-2xx response into an ApiError. JSON error bodies (`{ message,
+ * retryable? }`) contribute their message and retry hint; anything else is
+ * carried as raw text. A Retry-After (in seconds) and the X-Request-Id come
+ * along too.
+ */
+async function toApiError(response: Response): Promise<ApiError> {
+  const errorText = await response.text();
+  let message = errorText || `Request failed with status ${response.status}`;
+  let retryable: boolean | undefined;
+  try {
+    const body = JSON.parse(errorText) as { message?: unknown; retryable?: unknown };
+    if (typeof body.message === 'string') message = body.message;
+    if (typeof body.retryable === 'boolean') retryable = body.retryable;
+  } catch {
+    // Not JSON — keep the raw text.
+  }
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new ApiError(
+    response.status,
+    message,
+    retryable,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+    response.headers.get('X-Request-Id') ?? undefined
+  );
 }
 
 /**
@@ -53,24 +188,10 @@ export async function apiRequest<T>(
   endpoint: string,
   options?: ApiRequestOptions
 ): Promise<T> {
-  const url = `/api${endpoint}`;
-
-  const secret = getAppSecret();
-  const response = await fetch(url, {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(secret ? { 'x-app-secret': secret } : {}),
-      ...options?.headers,
-    },
-    ...options,
-  });
+  const response = await apiFetch(endpoint, options);
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new ApiError(
-      response.status,
-      errorText || `Request failed with status ${response.status}`
-    );
+    throw await toApiError(response);
   }
 
   return response.json();
@@ -83,28 +204,221 @@ export async function checkHealth(): Promise<{ status: string; timestamp: string
   return apiRequest('/health');
 }
 
+/** One finding of the deep health check (server/lib/point-one-store.ts `HealthCheck`). */
+export interface HealthCheck {
+  /** `repo`, `branch`, `token`, `write`, `rate-limit`, `program`, `outbox`, `push`… */
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+/** GET /api/health/deep — which part of the seam is actually broken. */
+export interface DeepHealth {
+  status: 'ok' | 'degraded';
+  timestamp: string;
+  store: string;
+  athlete: string;
+  checks: HealthCheck[];
+  lastReadAt?: string | null;
+  lastWriteAt?: string | null;
+  rateLimit?: { limit: number; remaining: number; resetAt: string };
+}
+
 /**
- * Read path: GET the current program envelope (schema 2) the brain wrote.
+ * Ask the server what's wrong with its store. A degraded answer is a 503 with
+ * the same body, so it resolves like a healthy one; anything else (signed
+ * out, server down) throws.
  */
-export async function fetchProgram(): Promise<ProgramEnvelope> {
-  return apiRequest<ProgramEnvelope>('/program');
+export async function fetchDeepHealth(): Promise<DeepHealth> {
+  const response = await apiFetch('/health/deep', { cache: 'no-store' });
+  if (!response.ok && response.status !== 503) {
+    throw await toApiError(response);
+  }
+  return response.json();
+}
+
+/** Backend response shape for the program: the envelope plus lint warnings. */
+export interface ProgramResponse {
+  program: ProgramEnvelope;
+  /** Contract drift the server tolerated (e.g. an id off the naming rule). */
+  warnings: ContractIssue[];
+  /** The athlete's zone for calendar dates (D8): the program's own, else the server's config. */
+  timeZone?: string;
+  /** Session schemas POST /api/session accepts (absent from servers that predate it). */
+  schemas?: number[];
 }
 
-/** Backend response shape for a committed session. */
-export interface PostSessionResult {
+/** Result of a conditional program fetch. */
+export type ProgramFetch =
+  | { changed: false }
+  | {
+      changed: true;
+      /** As sent — not yet up-converted (shared/seam-migrations) or checked. */
+      program: unknown;
+      etag: string | null;
+      timeZone: string | null;
+      schemas: number[] | null;
+    };
+
+/**
+ * Read path: GET the current program envelope (schema 2) the brain wrote. The
+ * server lints it first — a program that fails the contract is a 422 and
+ * surfaces as an ApiError; warnings on a usable one are logged, not shown.
+ *
+ * Pass the ETag of the cached program and an unchanged program comes back as
+ * a 304 — `{ changed: false }`, nothing downloaded, nothing to re-apply.
+ */
+export async function fetchProgram(etag?: string | null): Promise<ProgramFetch> {
+  const response = await apiFetch('/program', {
+    // The ETag lives with the cached program in app state; the browser's own
+    // HTTP cache would only hand back a synthesized 200.
+    cache: 'no-store',
+    headers: etag ? { 'If-None-Match': etag } : undefined,
+  });
+  if (response.status === 304) {
+    return { changed: false };
+  }
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  const { program, warnings, timeZone, schemas } = (await response.json()) as ProgramResponse;
+  if (warnings?.length) {
+    console.warn('Point One program has contract warnings:', warnings);
+  }
+  return {
+    changed: true,
+    program,
+    etag: response.headers.get('ETag'),
+    timeZone: timeZone ?? program.timeZone ?? null,
+    schemas: schemas ?? null,
+  };
+}
+
+/** Backend response shape for a session the store took there and then. */
+export interface CommittedSessionResult {
   ok: boolean;
+  spooled?: false;
   path: string;
   committed: boolean;
+  /** Why the server wrote the file but made no commit (e.g. unchanged content). */
+  skipReason?: string;
+  receiptId?: string;
+  /** The commit that wrote it, when one was made. */
+  commit?: CommitReceipt;
+  /** The server already had this exact record (same idempotency key) — the original receipt. */
+  duplicate?: boolean;
+}
+
+/**
+ * Backend response shape for a 202: the server spooled the record to its
+ * outbox because the store was unreachable, and will keep trying. Ask about
+ * it later with fetchReceipt(receiptId).
+ */
+export interface SpooledSessionResult {
+  ok: boolean;
+  spooled: true;
+  receiptId: string;
+  message: string;
+  duplicate?: boolean;
 }
 
+export type PostSessionResult = CommittedSessionResult | SpooledSessionResult;
+
 /**
  * Write path: POST one performed session record (device-truth actuals). The
  * backend files it by `performedDate` (D8) and commits that one file — never
  * the program. Same-day re-delivery overwrites the same file (D9).
+ *
+ * The record is sent in `schema` (see negotiateSchema), down-levelled from
+ * this app's own when the server is older, and labelled `X-Seam-Schema`.
  */
-export async function postSession(session: PerformedSession): Promise<PostSessionResult> {
+export async function postSession(session: PerformedSession, schema: number): Promise<PostSessionResult> {
   return apiRequest<PostSessionResult>('/session', {
     method: 'POST',
-    body: JSON.stringify(session),
+    headers: { 'X-Seam-Schema': String(schema) },
+    body: JSON.stringify(downgradeSession(session, schema)),
   });
 }
+
+/** Where a spooled session has got to in the server's outbox. */
+export interface SessionReceipt {
+  id: string;
+  /** `written`: in the store without a commit; `failed`: refused by the store for good. */
+  state: 'spooled' | 'committed' | 'written' | 'failed' | 'superseded';
+  fileName: string;
+  receivedAt: string;
+  attempts: number;
+  lastError: string | null;
+  /** The write result, once in the store. */
+  result?: { path: string; committed: boolean; skipReason?: string; commit?: CommitReceipt };
+  committedAt?: string;
+}
+
+/**
+ * Follow up on a 202: GET the outbox receipt. Resolves null when the server
+ * has no such receipt (e.g. a fresh deploy lost its spool) — the caller should
+ * deliver the record again.
+ */
+export async function fetchReceipt(receiptId: string): Promise<SessionReceipt | null> {
+  const response = await apiFetch(`/session/receipt/${encodeURIComponent(receiptId)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  return response.json();
+}
+
+/** One log file in Point One's repo, as GET /api/sessions reports it. */
+export interface LoggedSession {
+  fileName: string;
+  path: string;
+  performedDate: string | null;
+  /** The last commit that touched the file; null when it isn't committed. */
+  commit: { sha: string; committedAt: string } | null;
+  /** Listed in the current program's basedOn; null when the program couldn't be read. */
+  ingested: boolean | null;
+}
+
+export interface SessionsResponse {
+  /** The program generation `ingested` was judged against. */
+  generation: number | null;
+  /** Newest first. */
+  sessions: LoggedSession[];
+  /** Accepted by the server but not yet in the store (its outbox). */
+  pending: SessionReceipt[];
+}
+
+/**
+ * Audit path: what actually sits in `<workoutPath>/log/` — every delivered
+ * record with its commit and ingestion status, plus the server's outbox.
+ */
+export async function fetchSessions(): Promise<SessionsResponse> {
+  return apiRequest<SessionsResponse>('/sessions');
+}
+
+/**
+ * Read-back: GET one log file as committed. Resolves null when the store has
+ * no such file. The record is returned unvalidated — check it before use.
+ */
+export async function fetchSessionRecord(fileName: string): Promise<unknown | null> {
+  const response = await apiFetch(`/session/${encodeURIComponent(fileName)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  const { record } = (await response.json()) as { fileName: string; record: unknown };
+  return record;
+}
+
+/**
+ * What the brain changed between two generations (GET /api/program/diff),
+ * per theme. `to` defaults to the newest generation on the server.
+ */
+export async function fetchProgramDiff(from: number, to?: number): Promise<ProgramDiff> {
+  const query = `from=${from}${to === undefined ? '' : `&to=${to}`}`;
+  return apiRequest<ProgramDiff>(`/program/diff?${query}`);
+}
@@ -0,0 +1,36 @@
+/**
+ * Live program push: a socket.io connection to /api/socket that hears
+ * `program` `{ generation, generatedAt }` whenever the brain publishes a new
+ * generation (server/lib/program-socket.ts). It only says "something new" —
+ * the program itself is still pulled over HTTP (fetchProgram), so the ETag and
+ * lint paths stay the only way a program reaches the app.
+ */
+
+import { io } from 'socket.io-client';
+import { getDeviceToken } from '@/lib/api';
+
+export interface ProgramChange {
+  generation: number;
+  generatedAt: string;
+}
+
+/**
+ * Subscribe to new-generation notices. Reconnects by itself (socket.io's
+ * backoff); a refused handshake just leaves the app on its focus/online sync.
+ * Returns an unsubscribe that closes the socket.
+ */
+export function subscribeProgramChanges(onChange: (change: ProgramChange) => void): () => void {
+  const socket = io({
+    path: '/api/socket',
+    // Read on every (re)connect, so a token minted after sign-in is used.
+    auth: (cb) => cb({ token: getDeviceToken() }),
+  });
+  socket.on('program', onChange);
+  socket.on('connect_error', (err) => {
+    console.warn('Live program updates unavailable:', err.message);
+  });
+  return () => {
+    socket.off('program', onChange);
+    socket.close();
+  };
+}
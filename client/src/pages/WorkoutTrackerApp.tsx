@@ -10,6 +10,7 @@ import {
   CheckCheck,
   CheckCircle2,
   UploadCloud,
+  CloudCog,
   PlayCircle,
   CircleDashed,
   X,
@@ -29,11 +30,13 @@ import { useWorkoutProgramContext } from '@/contexts/WorkoutProgramContext';
 import { useSecretGate } from '@/components/SecretGate';
 import { SessionView } from '@/components/SessionView';
 import { SessionCompleteOverlay } from '@/components/SessionCompleteOverlay';
+import { SeamDiagnosis } from '@/components/SeamDiagnosis';
+import { ProgramDiffDialog } from '@/components/ProgramDiffDialog';
 import { useToast } from '@/hooks/use-toast';
 import { PrescribedSession, PerformedSession, SessionStatus } from '@/types/workout';
-import { todayPT, ptDate } from '@/utils/timeHelpers';
+import { athleteToday, athleteDate } from '@/utils/timeHelpers';
 
-/** The state ladder (D16): planned · in progress · logged (saved/delivered) · ingested. */
+/** The state ladder (D16): planned · in progress · logged (saved/spooled/delivered) · ingested. */
 const StatusIcon = ({ status }: { status: SessionStatus }) => {
   switch (status) {
     case 'ingested':
@@ -42,6 +45,8 @@ const StatusIcon = ({ status }: { status: SessionStatus }) => {
       return <CheckCircle2 className="w-5 h-5 text-green-600" />;
     case 'departed':
       return <UploadCloud className="w-5 h-5 text-amber-500" />;
+    case 'spooled':
+      return <CloudCog className="w-5 h-5 text-sky-500" />;
     case 'in-progress':
       return <PlayCircle className="w-5 h-5 text-orange-500" />;
     case 'planned':
@@ -57,6 +62,8 @@ const statusText = (status: SessionStatus): string | null => {
       return 'Delivered ✓';
     case 'departed':
       return 'Saved on device';
+    case 'spooled':
+      return 'Sent · waiting on Point One';
     case 'in-progress':
       return 'In progress';
     case 'planned':
@@ -66,11 +73,11 @@ const statusText = (status: SessionStatus): string | null => {
 
 /** 'today' / 'yesterday' / 'Sat' for a YYYY-MM-DD calendar date. */
 const dayWord = (dateStr: string, weekday: 'short' | 'long' = 'short'): string => {
-  const today = todayPT();
+  const today = athleteToday();
   if (dateStr === today) return 'today';
   const noon = new Date(`${dateStr}T12:00:00`);
   const dayMs = 24 * 60 * 60 * 1000;
-  if (dateStr === ptDate(new Date(new Date(`${today}T12:00:00`).getTime() - dayMs))) return 'yesterday';
+  if (dateStr === athleteDate(new Date(new Date(`${today}T12:00:00`).getTime() - dayMs))) return 'yesterday';
   const diff = new Date(`${today}T12:00:00`).getTime() - noon.getTime();
   if (Math.abs(diff) < 7 * dayMs) {
     return noon.toLocaleDateString('en-US', { weekday });
@@ -116,9 +123,14 @@ export const WorkoutTrackerApp = (): JSX.Element => {
   const [, setLocation] = useLocation();
 
   const [matchSession, sessionParams] = useRoute('/:sessionId');
+  /** Bumped per pull, so the "Can't reach" screen re-diagnoses each retry. */
+  const [pullAttempt, setPullAttempt] = useState(0);
+  /** The While-you-were-away card's "see what changed" dialog. */
+  const [showProgramDiff, setShowProgramDiff] = useState(false);
 
   const handlePullProgram = async () => {
     const result = await pullProgram();
+    setPullAttempt((n) => n + 1);
     if (result.ok) {
       toast({ title: 'Program refreshed', description: 'Pulled the latest from Point One.' });
     } else {
@@ -158,16 +170,23 @@ export const WorkoutTrackerApp = (): JSX.Element => {
 
     setLocation('/');
     setShowDepartOverlay(false);
-    if (result?.delivered) {
+    if (result?.delivery === 'delivered') {
       // Honest tempo (D12): delivery is real, the brain's reply is async.
       toast({
         title: 'Done for today',
         description: 'Delivered ✓ — Point One picks this up on its next pass.',
       });
+    } else if (result?.delivery === 'spooled') {
+      toast({
+        title: 'Done for today',
+        description: "Sent — the server is holding it until Point One's repo is reachable.",
+      });
     } else {
       toast({
         title: 'Done for today',
-        description: 'Saved on this device — will deliver when Point One is reachable.',
+        description: `Saved on this device — will deliver when Point One is reachable.${
+          result?.requestId ? ` (ref ${result.requestId.slice(0, 8)})` : ''
+        }`,
       });
     }
   };
@@ -200,18 +219,21 @@ export const WorkoutTrackerApp = (): JSX.Element => {
       );
     }
 
-    const { session, status, isLocal } = found;
+    const { session, status, isLocal, deliveryError, deliveryRequestId, commit } = found;
     const sealed = isLocal && !!(session as PerformedSession).sealed;
-    const performedDate = (session as PerformedSession).performedDate;
+    const { performedDate, timeZone } = session as PerformedSession;
     // Device-truth sessions are editable until they seal; a sealed session can
     // still amend on its performedDate (D9). Ingested history is read-only —
     // corrections go through the Point One chat.
-    const editable = status !== 'ingested' && (!sealed || performedDate === todayPT());
+    const editable = status !== 'ingested' && (!sealed || performedDate === athleteToday(timeZone));
 
     return (
       <SessionView
         session={session}
         status={status}
+        deliveryError={deliveryError}
+        deliveryRequestId={deliveryRequestId}
+        commit={commit}
         editable={editable}
         performedRecords={performedRecords}
         onAddSet={(exerciseId, set) => addSet(id, exerciseId, set)}
@@ -253,7 +275,8 @@ export const WorkoutTrackerApp = (): JSX.Element => {
           <p className="text-gray-600 mb-2">
             This device has no cached program and the seam is unreachable.
           </p>
-          {fetchError && <p className="text-xs text-gray-400 mb-6 break-words">{fetchError}</p>}
+          {fetchError && <p className="text-xs text-gray-400 mb-2 break-words">{fetchError}</p>}
+          <SeamDiagnosis attempt={pullAttempt} />
           <Button onClick={handlePullProgram} className="w-full sm:w-auto">
             <RefreshCw className="w-4 h-4 mr-2" />
             Try again
@@ -268,12 +291,12 @@ export const WorkoutTrackerApp = (): JSX.Element => {
   // (steady-state "all delivered" is noise; Lawrence's review 2026-06-10).
   const freshnessLine = (() => {
     if (fetchError) {
-      const asOf = lastFetchedAt ? dayWord(ptDate(new Date(lastFetchedAt))) : 'an earlier visit';
+      const asOf = lastFetchedAt ? dayWord(athleteDate(new Date(lastFetchedAt))) : 'an earlier visit';
       return `offline — program as of ${asOf}`;
     }
     const lastBasedOn = program.basedOn[program.basedOn.length - 1];
     const basedDate = lastBasedOn?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
-    let line = `Updated ${dayWord(ptDate(new Date(program.generatedAt)))}`;
+    let line = `Updated ${dayWord(athleteDate(new Date(program.generatedAt)))}`;
     if (basedDate) line += ` from ${dayPossessive(basedDate)} workout`;
     if (hasUndelivered) line += ' · a workout is waiting to send';
     return line;
@@ -289,7 +312,8 @@ export const WorkoutTrackerApp = (): JSX.Element => {
     const st = statusOf(session.id);
     return (
       st === 'in-progress' ||
-      ((st === 'departed' || st === 'delivered') && session.performedDate === todayPT())
+      ((st === 'departed' || st === 'spooled' || st === 'delivered') &&
+        session.performedDate === athleteToday(session.timeZone))
     );
   });
 
@@ -345,7 +369,7 @@ export const WorkoutTrackerApp = (): JSX.Element => {
   // stale day word ("maybe yesterday").
   const plannedHint = (plannedDate: string | undefined): string | null => {
     if (!plannedDate) return null;
-    return plannedDate < todayPT() ? 'next time' : `maybe ${dayWord(plannedDate)}`;
+    return plannedDate < athleteToday() ? 'next time' : `maybe ${dayWord(plannedDate)}`;
   };
 
   const upcomingRows = themes.map(({ theme, next }, i) =>
@@ -410,6 +434,12 @@ export const WorkoutTrackerApp = (): JSX.Element => {
                 <div>
                   <h2 className="text-sm font-semibold text-blue-900 mb-1">While you were away</h2>
                   <p className="text-sm text-blue-900">{program.changelog}</p>
+                  <button
+                    className="text-xs font-medium text-blue-700 hover:text-blue-900 underline mt-2"
+                    onClick={() => setShowProgramDiff(true)}
+                  >
+                    See what changed
+                  </button>
                 </div>
                 <Button
                   variant="ghost"
@@ -424,6 +454,14 @@ export const WorkoutTrackerApp = (): JSX.Element => {
             </CardContent>
           </Card>
         )}
+        {showWhileAway && (
+          <ProgramDiffDialog
+            from={lastSeenGeneration}
+            to={program.generation}
+            open={showProgramDiff}
+            onOpenChange={setShowProgramDiff}
+          />
+        )}
 
         <section className="w-full">
           <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-3">
@@ -4,96 +4,77 @@
  * skills/workout-plan.md. The Week[] shape is retired.
  */
 
-export interface SetResult {
-  setNumber: number;
-  reps: number;
-  weight?: number;
-  weightUnit: 'lbs' | 'kg';
-  rir?: number;
-  completed: boolean;
-  skipped?: boolean;
-  notes?: string;
-  /** ISO timestamp the set was logged — origin for the rest timer. */
-  loggedAt?: string;
-}
-
-export interface Exercise {
-  id: string; // `<sessionId>-e<n>` — opaque, minted by the brain
-  name: string;
-  groupLabel?: string;
-  warmupSets: number;
-  workingSets: number;
-  reps: string;
-  targetLoad: string;
-  restSeconds: number;
-  notes?: string;
-  userNotes?: string;
-  sets: SetResult[];
-  skipped?: boolean;
-}
-
 /**
- * A prescription on tap. `id` is absolute and opaque (`s-<date>-<slug>`):
- * once published it refers to one prescription forever — never parse it for
- * position; "week 2" style context is brain-derived display (see block).
+ * The seam types (SetResult → Exercise → PrescribedSession → PerformedSession,
+ * and the ProgramEnvelope that carries them) are inferred from the shared zod
+ * contract, so the client's types and the server's validation can't drift.
+ * See shared/seam.ts.
+ *
+ * A prescription's `id` is absolute and opaque (`s-<date>-<slug>`): once
+ * published it refers to one prescription forever — never parse it for
+ * position. A performed record is a journal of what happened, not a checklist
+ * reconciled to zero; its log filename derives from performedDate:
+ * `<performedDate>-<slug>.json`.
  */
-export interface PrescribedSession {
-  id: string;
-  theme: string; // 'lower' | 'upper' | 'cardio' | … — brain-owned vocabulary
-  name: string;
-  plannedDate?: string; // YYYY-MM-DD — an optimistic hint, never a commitment
-  warmup?: string[];
-  notes?: string;
-  exercises: Exercise[];
-}
+import type {
+  SetResult,
+  Exercise,
+  PrescribedSession,
+  PerformedSession,
+  SealReason,
+  ProgramBlock,
+  ProgramEnvelope,
+} from '@shared/seam';
 
-export type SealReason = 'departure' | 'auto' | 'chat';
+export type {
+  SetResult,
+  Exercise,
+  PrescribedSession,
+  PerformedSession,
+  SealReason,
+  ProgramBlock,
+  ProgramEnvelope,
+};
 
 /**
- * A performed record — a journal of what happened, not a checklist reconciled
- * to zero. Logged sets are facts; unlogged sets are absence. The log filename
- * derives from performedDate: `<performedDate>-<slug>.json`.
+ * Delivery states for a local record: saved (device only) → spooled (the
+ * server holds it in its outbox, store not yet reached) → delivered (commit
+ * confirmed). Spooled is skipped when the store takes the record directly.
+ * The last state, ingested, is derived — the record's filename appears in a
+ * pulled program's basedOn, at which point git is truth and the local copy is
+ * dropped (truth-transfer).
  */
-export interface PerformedSession extends PrescribedSession {
-  performedDate: string; // America/Los_Angeles calendar date of the first logged set
-  startedAt?: string;
-  departedAt?: string;
-  sealed?: SealReason;
-  note?: string; // the felt-note from departure
-}
+export type DeliveryState = 'saved' | 'spooled' | 'delivered';
 
-export interface ProgramBlock {
-  focus: string;
-  startedOn?: string;
-  note?: string;
+/** Where a delivery attempt left a record; `requestId` is the failed call's X-Request-Id. */
+export interface DeliveryOutcome {
+  delivery: DeliveryState;
+  requestId?: string;
 }
 
-/** The program envelope the brain writes (program.json). */
-export interface ProgramEnvelope {
-  schema: number; // 2
-  generation: number; // monotonic — all freshness behavior keys off this
-  generatedAt: string;
-  basedOn: string[]; // log filenames ingested INTO this generation (read receipts)
-  changelog: string; // one coach-voiced line for the "while you were away" card
-  block?: ProgramBlock;
-  queue: PrescribedSession[]; // ordered; first of a theme = next on tap
-  history: PerformedSession[]; // ingested records, embedded for history display
+/** The commit that delivered a record — proof it reached git (server/lib/point-one-store.ts). */
+export interface CommitReceipt {
+  sha: string;
+  /** The log file's blob sha in that commit. */
+  blobSha?: string;
+  /** A page showing the commit (GitHub / Gitea / GitLab; none for local git). */
+  url?: string;
 }
 
-/**
- * Delivery states for a local record: saved (device only) → delivered (commit
- * confirmed). The third state, ingested, is derived — the record's filename
- * appears in a pulled program's basedOn, at which point git is truth and the
- * local copy is dropped (truth-transfer).
- */
-export type DeliveryState = 'saved' | 'delivered';
-
 /** A device-truth session record: the local copy from first logged set until ingestion. */
 export interface LocalSession {
   record: PerformedSession;
   delivery: DeliveryState;
   deliveredAs?: string; // server-confirmed log filename (basename), for basedOn matching
+  /** The commit the server reported for the delivery, when it made one. */
+  commit?: CommitReceipt;
+  /** The server outbox receipt while `delivery` is 'spooled'. */
+  receiptId?: string;
+  /** Why the last delivery can never succeed as-is (contract rejection, bad token…). */
+  deliveryError?: string;
+  /** X-Request-Id of the last failed delivery attempt — quote it to find the server log line. */
+  deliveryRequestId?: string;
 }
 
 /** Display status for timeline/list iconography. */
-export type SessionStatus = 'planned' | 'in-progress' | 'departed' | 'delivered' | 'ingested';
+export type SessionStatus = 'planned' | 'in-progress' | 'departed' | 'spooled' | 'delivered' | 'ingested';
@@ -1,48 +1,94 @@
 import { ProgramEnvelope, LocalSession } from '@/types/workout';
+import { getDeviceAthlete } from '@/lib/api';
+import { SEAM_SCHEMA, upgradeEnvelope, upgradeSession } from '@shared/seam-migrations';
 
 /**
- * Device cache (schema 2). localStorage is a cache of truth already in git,
+ * Device cache. localStorage is a cache of truth already in git,
  * not the journal of record — iOS Safari can evict it for sites untouched
  * ~7 days, which is why delivery is eager (D11). Everything here is
  * reconstructible from the seam except un-delivered local sessions, which is
  * exactly why those deliver eagerly.
+ *
+ * Each athlete a device signs in as gets its own copy, so a shared phone never
+ * shows (or delivers) one athlete's sessions as another's.
+ *
+ * A saved copy records two versions: `version`, the shape of StoredState
+ * itself, and `schema`, the seam schema its program and records are in. On
+ * load an older copy is brought forward step by step — `stateMigrations` for
+ * the shape, shared/seam-migrations for the seam — so an app update never
+ * strands an un-delivered session.
  */
 
 const STORAGE_KEY = 'po_workout_v2';
 
+/**
+ * The signed-in athlete's key; the default athlete keeps the original one.
+ * Read once, when the state is loaded, and saved back under the same key: a
+ * 401 forgets the device's athlete before the failed call settles, and the
+ * save that follows still belongs to the athlete whose state it is.
+ */
+export function storageKey(): string {
+  const athlete = getDeviceAthlete();
+  return athlete && athlete !== 'default' ? `${STORAGE_KEY}:${athlete}` : STORAGE_KEY;
+}
+
 /** Keys from the retired Week[] model — purged on load. */
 const LEGACY_KEYS = ['workout_weeks', 'current_week_index'];
 
+/** The StoredState shape this code writes. A copy without `version` is 1. */
+const STATE_VERSION = 1;
+
+/** A copy written before `schema` was recorded holds schema 2. */
+const UNVERSIONED_SCHEMA = 2;
+
+type StoredJson = Record<string, unknown>;
+
+/** `[n]`: a version-n saved copy → version n+1. Keep fields you don't know. */
+const stateMigrations: Record<number, (saved: StoredJson) => StoredJson> = {};
+
 export interface StoredState {
   program: ProgramEnvelope | null;
+  /** The server's ETag for `program` — sent as If-None-Match on the next pull. */
+  programETag: string | null;
   /** Device-truth records keyed by session id, from first logged set until ingestion. */
   local: Record<string, LocalSession>;
   lastFetchedAt: string | null;
   /** Last generation surfaced to the user — drives the "while you were away" card. */
   lastSeenGeneration: number | null;
+  /** The athlete's zone as of the last pull (D8) — what new sessions are dated in. */
+  timeZone: string | null;
+  /** Session schemas the server accepts (GET /api/program `schemas`); null before it said. */
+  serverSchemas: number[] | null;
 }
 
 export const emptyState = (): StoredState => ({
   program: null,
+  programETag: null,
   local: {},
   lastFetchedAt: null,
   lastSeenGeneration: null,
+  timeZone: null,
+  serverSchemas: null,
 });
 
-export function loadState(): StoredState {
+export function loadState(key: string): StoredState {
   try {
     for (const key of LEGACY_KEYS) {
       localStorage.removeItem(key);
     }
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = localStorage.getItem(key);
     if (!raw) return emptyState();
-    const parsed = JSON.parse(raw) as StoredState;
-    if (!parsed || typeof parsed !== 'object') return emptyState();
+    const saved = JSON.parse(raw) as StoredJson;
+    if (!saved || typeof saved !== 'object') return emptyState();
+    const parsed = migrateState(saved) as Partial<StoredState>;
     return {
       program: parsed.program ?? null,
+      programETag: parsed.program ? parsed.programETag ?? null : null,
       local: parsed.local ?? {},
       lastFetchedAt: parsed.lastFetchedAt ?? null,
       lastSeenGeneration: parsed.lastSeenGeneration ?? null,
+      timeZone: parsed.timeZone ?? null,
+      serverSchemas: parsed.serverSchemas ?? null,
     };
   } catch (error) {
     console.error('Error loading workout state:', error);
@@ -50,9 +96,50 @@ export function loadState(): StoredState {
   }
 }
 
-export function saveState(state: StoredState): void {
+/**
+ * Bring a saved copy up to STATE_VERSION and SEAM_SCHEMA. Nothing is thrown
+ * away that can't be had again: a program that won't convert is dropped (the
+ * next pull replaces it), while a local record that won't convert is kept as
+ * it is — delivery checks it against the contract before sending.
+ */
+function migrateState(saved: StoredJson): StoredJson {
+  let state = saved;
+  const version = typeof state.version === 'number' ? state.version : 1;
+  for (let n = version; n < STATE_VERSION; n++) {
+    const step = stateMigrations[n];
+    if (!step) {
+      console.warn(`No migration for saved workout state from version ${n}; loading it as is.`);
+      break;
+    }
+    state = step(state);
+  }
+
+  const schema = typeof state.schema === 'number' ? state.schema : UNVERSIONED_SCHEMA;
+  if (schema === SEAM_SCHEMA) return state;
+  let program: unknown = null;
+  try {
+    program = state.program ? upgradeEnvelope(state.program) : null;
+  } catch (error) {
+    console.warn('Cached program could not be converted; it will be pulled again:', error);
+  }
+  const local: Record<string, LocalSession> = {};
+  for (const [id, ls] of Object.entries((state.local ?? {}) as Record<string, LocalSession>)) {
+    try {
+      local[id] = { ...ls, record: upgradeSession(ls.record, schema) as LocalSession['record'] };
+    } catch (error) {
+      console.warn(`Cached session ${id} could not be converted; kept as is:`, error);
+      local[id] = ls;
+    }
+  }
+  return { ...state, program, programETag: program ? state.programETag : null, local };
+}
+
+export function saveState(state: StoredState, key: string): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    localStorage.setItem(
+      key,
+      JSON.stringify({ ...state, version: STATE_VERSION, schema: SEAM_SCHEMA })
+    );
   } catch (error) {
     console.error('Error saving workout state:', error);
   }
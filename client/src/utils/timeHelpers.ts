@@ -1,22 +1,37 @@
 /**
- * Time helpers for the seam contract: performedDate is always the
- * America/Los_Angeles calendar date (D8) — never a UTC slice.
+ * Time helpers for the seam contract: performedDate is always a calendar date
+ * in the athlete's zone (D8) — never a UTC slice. The zone comes with each
+ * program pull (the program's own `timeZone`, else the server's config) and
+ * defaults to America/Los_Angeles until the first one.
  */
 
-const PT_FORMAT = new Intl.DateTimeFormat('en-CA', {
-  timeZone: 'America/Los_Angeles',
-  year: 'numeric',
-  month: '2-digit',
-  day: '2-digit',
-});
+import { calendarDateIn, DEFAULT_TIME_ZONE, isTimeZone } from '@shared/seam';
 
-/** YYYY-MM-DD in America/Los_Angeles for a given instant (default: now). */
-export function ptDate(d: Date = new Date()): string {
-  return PT_FORMAT.format(d);
+let athleteZone = DEFAULT_TIME_ZONE;
+
+/** Adopt the zone the server sent with the program; an unknown one is ignored. */
+export function setAthleteTimeZone(zone: string | null | undefined): void {
+  if (zone && isTimeZone(zone)) {
+    athleteZone = zone;
+  }
+}
+
+/** The athlete's zone now — what a newly started session is stamped with. */
+export function athleteTimeZone(): string {
+  return athleteZone;
+}
+
+/**
+ * YYYY-MM-DD for a given instant (default: now), in `zone` (default: the
+ * athlete's). Pass a session's own `timeZone` when judging that session.
+ */
+export function athleteDate(d: Date = new Date(), zone: string = athleteZone): string {
+  return calendarDateIn(d, zone);
 }
 
-export function todayPT(): string {
-  return ptDate();
+/** Today's date in `zone` (default: the athlete's). */
+export function athleteToday(zone?: string): string {
+  return athleteDate(new Date(), zone);
 }
 
 /**
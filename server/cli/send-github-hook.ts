@@ -0,0 +1,86 @@
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { signBody } from "../lib/github-webhook";
+
+/**
+ * Send a push payload to POST /api/hooks/github the way GitHub would: signed
+ * with GITHUB_WEBHOOK_SECRET, under a fresh X-GitHub-Delivery id. For trying
+ * the webhook locally without a public URL.
+ *
+ *   GITHUB_WEBHOOK_SECRET=... tsx server/cli/send-github-hook.ts <url> [payload.json] [--event <name>] [--delivery <id>]
+ *
+ * The payload defaults to server/fixtures/github-push.json. Send the same
+ * payload twice to see the replay refused — even under a new delivery id.
+ *
+ * Exit codes: 0 accepted (2xx), 1 refused, 2 usage / unreadable.
+ */
+
+const USAGE =
+  "usage: send-github-hook <url> [payload.json] [--event <name>] [--delivery <id>]";
+const DEFAULT_PAYLOAD = path.resolve(import.meta.dirname, "../fixtures/github-push.json");
+
+async function main(argv: string[]): Promise<number> {
+  let url: string | undefined;
+  let file: string | undefined;
+  let event = "push";
+  let delivery: string = randomUUID();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--event" || arg === "--delivery") {
+      const value = argv[++i];
+      if (!value) {
+        console.error(`${arg} expects a value.\n${USAGE}`);
+        return 2;
+      }
+      if (arg === "--event") event = value;
+      else delivery = value;
+    } else if (arg === "-h" || arg === "--help") {
+      console.log(USAGE);
+      return 0;
+    } else if (!url) {
+      url = arg;
+    } else if (!file) {
+      file = arg;
+    } else {
+      console.error(`Unexpected argument: ${arg}\n${USAGE}`);
+      return 2;
+    }
+  }
+  if (!url) {
+    console.error(USAGE);
+    return 2;
+  }
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("GITHUB_WEBHOOK_SECRET must be set to sign the payload.");
+    return 2;
+  }
+
+  let body: string;
+  try {
+    // Re-serialize so a hand-edited fixture is still valid JSON on the wire.
+    body = JSON.stringify(JSON.parse(await readFile(file ?? DEFAULT_PAYLOAD, "utf8")));
+  } catch (err) {
+    console.error(`Could not read ${file ?? DEFAULT_PAYLOAD} as JSON: ${(err as Error).message}`);
+    return 2;
+  }
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-github-event": event,
+      "x-github-delivery": delivery,
+      "x-hub-signature-256": signBody(body, secret),
+    },
+    body,
+  });
+  console.log(`${res.status} ${await res.text()}`);
+  return res.ok ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
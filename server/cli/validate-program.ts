@@ -0,0 +1,58 @@
+import { readFile } from "fs/promises";
+import { lintProgram, formatReport } from "../lib/program-lint";
+
+/**
+ * Validate a program envelope (program.json) against the seam contract —
+ * the same linter GET /api/program runs, usable before the brain commits.
+ *
+ *   tsx server/cli/validate-program.ts <file> [--previous-generation <n>]
+ *
+ * Exit codes: 0 valid (warnings may be printed), 1 invalid, 2 usage / unreadable.
+ */
+
+const USAGE = "usage: validate-program <program.json> [--previous-generation <n>]";
+
+async function main(argv: string[]): Promise<number> {
+  let file: string | undefined;
+  let previousGeneration: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--previous-generation") {
+      const value = Number(argv[++i]);
+      if (!Number.isInteger(value)) {
+        console.error(`--previous-generation expects an integer.\n${USAGE}`);
+        return 2;
+      }
+      previousGeneration = value;
+    } else if (arg === "-h" || arg === "--help") {
+      console.log(USAGE);
+      return 0;
+    } else if (!file) {
+      file = arg;
+    } else {
+      console.error(`Unexpected argument: ${arg}\n${USAGE}`);
+      return 2;
+    }
+  }
+  if (!file) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    console.error(`Could not read ${file} as JSON: ${(err as Error).message}`);
+    return 2;
+  }
+
+  const report = lintProgram(raw, { previousGeneration });
+  console.log(formatReport(report));
+  return report.ok ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
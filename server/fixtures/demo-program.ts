@@ -0,0 +1,100 @@
+import type { ProgramEnvelope } from "@shared/seam";
+
+/**
+ * A small, contract-valid program envelope (schema 2) — the default seed for
+ * the in-memory store (POINT_ONE_STORE=memory), so the app and its routes run
+ * on a machine with no Point One checkout. Override with POINT_ONE_SEED.
+ */
+export const demoProgram: ProgramEnvelope = {
+  schema: 2,
+  generation: 1,
+  generatedAt: "2026-06-08T16:00:00.000Z",
+  basedOn: [],
+  changelog: "First block: build the base — moderate loads, clean reps, leave a couple in the tank.",
+  block: {
+    focus: "Accumulation",
+    startedOn: "2026-06-08",
+    note: "Demo program — seeded by the in-memory store, not written by Point One.",
+  },
+  queue: [
+    {
+      id: "s-2026-06-09-lower-heavy",
+      theme: "lower",
+      name: "Lower — Heavy",
+      plannedDate: "2026-06-09",
+      warmup: ["5 min bike", "Goblet squat x 10", "Glute bridge x 10"],
+      exercises: [
+        {
+          id: "s-2026-06-09-lower-heavy-e1",
+          name: "Back Squat",
+          groupLabel: "A1",
+          warmupSets: 2,
+          workingSets: 3,
+          reps: "5",
+          targetLoad: "185 lbs",
+          restSeconds: 180,
+          sets: [],
+        },
+        {
+          id: "s-2026-06-09-lower-heavy-e2",
+          name: "Romanian Deadlift",
+          groupLabel: "B1",
+          warmupSets: 1,
+          workingSets: 3,
+          reps: "8",
+          targetLoad: "135 lbs",
+          restSeconds: 120,
+          sets: [],
+        },
+      ],
+    },
+    {
+      id: "s-2026-06-10-upper-volume",
+      theme: "upper",
+      name: "Upper — Volume",
+      plannedDate: "2026-06-10",
+      exercises: [
+        {
+          id: "s-2026-06-10-upper-volume-e1",
+          name: "Bench Press",
+          groupLabel: "A1",
+          warmupSets: 2,
+          workingSets: 4,
+          reps: "8-10",
+          targetLoad: "135 lbs",
+          restSeconds: 120,
+          sets: [],
+        },
+        {
+          id: "s-2026-06-10-upper-volume-e2",
+          name: "Pull-up",
+          groupLabel: "B1",
+          warmupSets: 0,
+          workingSets: 3,
+          reps: "AMRAP",
+          targetLoad: "Bodyweight",
+          restSeconds: 90,
+          sets: [],
+        },
+      ],
+    },
+    {
+      id: "s-2026-06-11-cardio-zone-2",
+      theme: "cardio",
+      name: "Zone 2",
+      exercises: [
+        {
+          id: "s-2026-06-11-cardio-zone-2-e1",
+          name: "Incline Walk",
+          warmupSets: 0,
+          workingSets: 1,
+          reps: "40 min",
+          targetLoad: "Bodyweight",
+          restSeconds: 0,
+          sets: [],
+        },
+      ],
+    },
+  ],
+  history: [],
+};
@@ -1,40 +1,30 @@
 import express, { type Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { requestLogger } from "./lib/request-log";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+// Behind a proxy (Railway), req.ip is the proxy's unless Express is told how
+// many hops to trust — and the access-code lockout is keyed by req.ip.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+declare module "http" {
+  interface IncomingMessage {
+    /** The request body as received — webhook signatures are over these bytes. */
+    rawBody: Buffer | undefined;
+  }
+}
+/** Keep the bytes as received — a form-encoded webhook is signed too. */
+const keepRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ verify: keepRawBody }));
+app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
+
+app.use(requestLogger);
 
 (async () => {
   const server = await registerRoutes(app);
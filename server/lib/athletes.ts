@@ -0,0 +1,164 @@
+import path from "path";
+import { secretsMatch } from "./attempt-limiter";
+import type { DeviceRecord } from "./device-tokens";
+import { createStore, timeZoneFromEnv, workoutPathFromEnv, type PointOneStore } from "./point-one-store";
+import { SessionOutbox } from "./session-outbox";
+import { isTimeZone } from "@shared/seam";
+
+/**
+ * Athletes: one deployment can serve several people, each with their own
+ * workout dir (program + log) in the store. POINT_ONE_ATHLETES maps athlete
+ * ids to workout paths, optionally with an access code and a time zone of
+ * their own (else POINT_ONE_TIMEZONE):
+ *
+ *   POINT_ONE_ATHLETES={"law":{"workoutPath":"law/workout"},
+ *                       "sam":{"workoutPath":"sam/workout","accessCode":"…",
+ *                              "timeZone":"Asia/Tokyo"}}
+ *
+ * Unset, there is one athlete, `default`, at POINT_ONE_WORKOUT_PATH — the
+ * single-athlete deploy exactly as before.
+ *
+ * Each athlete gets their own store, outbox and program watcher, and every
+ * program/session route is answered from the requester's athlete only: the
+ * one their device token was minted for, or (with no gate) the one named by
+ * the `/api/a/:athlete/...` path. Two athletes never share a workout dir, so
+ * one can't see or write the other's logs.
+ */
+
+export const DEFAULT_ATHLETE = "default";
+
+/** An athlete id: lowercase, URL- and filename-safe. */
+const ATHLETE_ID = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+export interface Athlete {
+  id: string;
+  /** Workout dir within the repo (no leading/trailing slash). */
+  workoutPath: string;
+  /** Signs a device in as this athlete only; APP_SECRET still works when set. */
+  accessCode?: string;
+  /** Zone for calendar dates (D8) unless their program.json names one. */
+  timeZone: string;
+}
+
+/** Everything the routes need for one athlete. */
+export interface AthleteScope {
+  athlete: Athlete;
+  store: PointOneStore;
+  outbox: SessionOutbox;
+}
+
+/**
+ * Read POINT_ONE_ATHLETES. Misconfiguration throws at startup — better than
+ * serving one athlete's program to another.
+ */
+function athletesFromEnv(): Athlete[] {
+  const raw = process.env.POINT_ONE_ATHLETES?.trim();
+  if (!raw) {
+    return [{ id: DEFAULT_ATHLETE, workoutPath: workoutPathFromEnv(), timeZone: timeZoneFromEnv() }];
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`POINT_ONE_ATHLETES is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error('POINT_ONE_ATHLETES must be an object: {"<athlete>": {"workoutPath": "..."}}');
+  }
+  const athletes: Athlete[] = [];
+  const owners = new Map<string, string>();
+  for (const [id, value] of Object.entries(config as Record<string, unknown>)) {
+    if (!ATHLETE_ID.test(id)) {
+      throw new Error(`POINT_ONE_ATHLETES: "${id}" is not a valid athlete id (a-z, 0-9, -; at most 32).`);
+    }
+    const { workoutPath, accessCode, timeZone } = (value ?? {}) as {
+      workoutPath?: unknown;
+      accessCode?: unknown;
+      timeZone?: unknown;
+    };
+    if (typeof workoutPath !== "string" || !workoutPath.replace(/^\/+|\/+$/g, "")) {
+      throw new Error(`POINT_ONE_ATHLETES: "${id}" needs a workoutPath.`);
+    }
+    if (accessCode !== undefined && (typeof accessCode !== "string" || !accessCode)) {
+      throw new Error(`POINT_ONE_ATHLETES: "${id}".accessCode must be a non-empty string.`);
+    }
+    if (timeZone !== undefined && (typeof timeZone !== "string" || !isTimeZone(timeZone))) {
+      throw new Error(`POINT_ONE_ATHLETES: "${id}".timeZone must be an IANA time zone (e.g. America/New_York).`);
+    }
+    const normalized = workoutPath.replace(/^\/+|\/+$/g, "");
+    const owner = owners.get(normalized);
+    if (owner) {
+      throw new Error(`POINT_ONE_ATHLETES: "${owner}" and "${id}" share workoutPath ${normalized}.`);
+    }
+    owners.set(normalized, id);
+    athletes.push({
+      id,
+      workoutPath: normalized,
+      ...(accessCode ? { accessCode } : {}),
+      timeZone: typeof timeZone === "string" ? timeZone : timeZoneFromEnv(),
+    });
+  }
+  if (athletes.length === 0) {
+    throw new Error("POINT_ONE_ATHLETES names no athletes.");
+  }
+  return athletes;
+}
+
+export class AthleteRegistry {
+  private readonly scopes = new Map<string, AthleteScope>();
+
+  /**
+   * `outboxDir` is the outbox spool; with several athletes each spools to
+   * its own `<outboxDir>/<id>/`, so a retry can only ever land in its own log.
+   */
+  constructor(athletes: Athlete[], outboxDir: string) {
+    const multi = athletes.length > 1 || athletes[0]?.id !== DEFAULT_ATHLETE;
+    for (const athlete of athletes) {
+      const store = createStore(athlete.workoutPath);
+      const dir = multi ? path.join(outboxDir, athlete.id) : outboxDir;
+      this.scopes.set(athlete.id, {
+        athlete,
+        store,
+        outbox: new SessionOutbox(store, dir),
+      });
+    }
+  }
+
+  /** True when POINT_ONE_ATHLETES is in use (even with one athlete in it). */
+  get multi(): boolean {
+    return !this.scopes.has(DEFAULT_ATHLETE) || this.scopes.size > 1;
+  }
+
+  /** Is the device gate on — APP_SECRET or any athlete's own access code set? */
+  get gated(): boolean {
+    return !!process.env.APP_SECRET || this.all().some((s) => !!s.athlete.accessCode);
+  }
+
+  get(id: string): AthleteScope | undefined {
+    return this.scopes.get(id);
+  }
+
+  all(): AthleteScope[] {
+    return Array.from(this.scopes.values());
+  }
+
+  /** The athlete whose own access code this is, if any. */
+  byAccessCode(code: string): AthleteScope | undefined {
+    return this.all().find((s) => !!s.athlete.accessCode && secretsMatch(code, s.athlete.accessCode));
+  }
+
+  /**
+   * The athlete a device acts for. A token minted before athletes existed
+   * carries none: it's the default athlete's in a single-athlete deploy, and
+   * nobody's once POINT_ONE_ATHLETES is set — it has to sign in again.
+   */
+  ofDevice(device: DeviceRecord): AthleteScope | undefined {
+    const id = device.athlete ?? (this.multi ? undefined : DEFAULT_ATHLETE);
+    return id === undefined ? undefined : this.scopes.get(id);
+  }
+}
+
+export const athletes = new AthleteRegistry(
+  athletesFromEnv(),
+  path.resolve(process.env.POINT_ONE_OUTBOX_DIR ?? ".point-one-outbox"),
+);
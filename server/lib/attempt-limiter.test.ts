@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { AttemptLimiter, secretsMatch } from "./attempt-limiter";
+
+const MINUTE = 60_000;
+
+let now: number;
+
+beforeEach(() => {
+  now = Date.parse("2026-06-09T12:00:00Z");
+  mock.method(Date, "now", () => now);
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+/** Wait out the current lockout, then guess wrong again. */
+function failAfterLockout(limiter: AttemptLimiter, key: string): number {
+  now += limiter.lockedFor(key);
+  return limiter.fail(key);
+}
+
+test("the first five wrong guesses are free; the sixth locks the client out for a minute", () => {
+  const limiter = new AttemptLimiter("access code");
+  for (let i = 0; i < 5; i++) {
+    assert.equal(limiter.fail("10.0.0.1"), 0);
+  }
+  assert.equal(limiter.lockedFor("10.0.0.1"), 0);
+
+  assert.equal(limiter.fail("10.0.0.1"), MINUTE);
+  assert.equal(limiter.lockedFor("10.0.0.1"), MINUTE);
+  assert.equal(limiter.lockedFor("10.0.0.2"), 0);
+});
+
+test("each lockout doubles the last, up to an hour", () => {
+  const limiter = new AttemptLimiter("access code");
+  for (let i = 0; i < 6; i++) limiter.fail("10.0.0.1");
+
+  const lockouts = Array.from({ length: 8 }, () => failAfterLockout(limiter, "10.0.0.1"));
+  assert.deepEqual(
+    lockouts.map((ms) => ms / MINUTE),
+    [2, 4, 8, 16, 32, 60, 60, 60],
+  );
+});
+
+test("a right answer clears the slate", () => {
+  const limiter = new AttemptLimiter("access code");
+  for (let i = 0; i < 6; i++) limiter.fail("10.0.0.1");
+  limiter.succeed("10.0.0.1");
+
+  assert.equal(limiter.lockedFor("10.0.0.1"), 0);
+  assert.equal(limiter.fail("10.0.0.1"), 0);
+});
+
+test("secretsMatch compares whole secrets", () => {
+  assert.equal(secretsMatch("open sesame", "open sesame"), true);
+  assert.equal(secretsMatch("open", "open sesame"), false);
+  assert.equal(secretsMatch("", "open sesame"), false);
+});
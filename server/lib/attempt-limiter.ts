@@ -0,0 +1,78 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Per-client failed-attempt tracking for the secrets a person types (the
+ * access code, the admin secret). The first FREE_FAILURES wrong guesses cost
+ * nothing; each one after that locks the client out for twice as long as the
+ * last, from LOCKOUT_BASE_MS up to LOCKOUT_MAX_MS. A right answer clears the
+ * slate. State is in memory — a restart forgives everyone, which is fine for
+ * slowing a guesser down from thousands of tries a minute to a handful a day.
+ */
+
+const FREE_FAILURES = 5;
+const LOCKOUT_BASE_MS = 60_000;
+const LOCKOUT_MAX_MS = 60 * 60_000;
+/** A client with no failures for this long is forgotten. */
+const FORGET_AFTER_MS = 24 * 60 * 60_000;
+
+interface Attempts {
+  failures: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+export class AttemptLimiter {
+  private readonly clients = new Map<string, Attempts>();
+
+  constructor(private readonly label: string) {}
+
+  /** Milliseconds until `key` may try again, or 0 if it isn't locked out. */
+  lockedFor(key: string): number {
+    const attempts = this.clients.get(key);
+    return attempts ? Math.max(0, attempts.lockedUntil - Date.now()) : 0;
+  }
+
+  /** Record a wrong guess. Returns the lockout it earned (0 while still free). */
+  fail(key: string): number {
+    this.forgetIdle();
+    const now = Date.now();
+    const attempts = this.clients.get(key) ?? { failures: 0, lockedUntil: 0, lastFailureAt: now };
+    attempts.failures++;
+    attempts.lastFailureAt = now;
+    this.clients.set(key, attempts);
+    const over = attempts.failures - FREE_FAILURES;
+    if (over <= 0) {
+      return 0;
+    }
+    const lockout = Math.min(LOCKOUT_BASE_MS * 2 ** (over - 1), LOCKOUT_MAX_MS);
+    attempts.lockedUntil = now + lockout;
+    console.warn(
+      `[auth] ${this.label}: locking out ${key} for ${Math.round(lockout / 1000)}s after ${attempts.failures} failed attempts`,
+    );
+    return lockout;
+  }
+
+  /** A right answer: forget the client's failures. */
+  succeed(key: string): void {
+    this.clients.delete(key);
+  }
+
+  private forgetIdle(): void {
+    const cutoff = Date.now() - FORGET_AFTER_MS;
+    this.clients.forEach((attempts, key) => {
+      if (attempts.lastFailureAt < cutoff && attempts.lockedUntil < Date.now()) {
+        this.clients.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Compare a typed secret with the expected one in constant time. Both sides
+ * are hashed first so neither the content nor the length of the secret leaks
+ * through how long the comparison takes.
+ */
+export function secretsMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
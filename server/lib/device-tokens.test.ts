@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { DeviceTokenStore } from "./device-tokens";
+
+function devicesFile(): string {
+  return path.join(mkdtempSync(path.join(tmpdir(), "devices-")), "devices.json");
+}
+
+/** Make every later save of `file` fail: its temp file's name is taken by a directory. */
+function blockWrites(file: string): void {
+  mkdirSync(`${file}.tmp`);
+}
+
+test("issue saves the device and its token verifies", async () => {
+  const store = new DeviceTokenStore(devicesFile());
+  const { device, token } = await store.issue("phone", "default");
+  assert.equal(store.verify(token)?.id, device.id);
+  assert.equal(new DeviceTokenStore(store.file).list().length, 1);
+});
+
+test("issue rejects and keeps no device when the file can't be written", async () => {
+  const file = devicesFile();
+  blockWrites(file);
+  const store = new DeviceTokenStore(file);
+  await assert.rejects(store.issue("phone", "default"));
+  assert.deepEqual(store.list(), []);
+});
+
+test("revoke rejects on a failed write but the revocation holds in memory", async () => {
+  const store = new DeviceTokenStore(devicesFile());
+  const { device, token } = await store.issue("phone", "default");
+  blockWrites(store.file);
+  await assert.rejects(store.revoke(device.id));
+  assert.equal(store.verify(token), undefined);
+});
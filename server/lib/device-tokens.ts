@@ -0,0 +1,164 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Per-device access tokens. A device trades an access code (APP_SECRET, or
+ * an athlete's own) for its own token once; every later /api call carries
+ * that token, so losing a phone means revoking one device instead of rotating
+ * the code everywhere. A token belongs to one athlete (lib/athletes) and only
+ * ever reaches that athlete's program and logs.
+ *
+ * Only a SHA-256 of each token is kept, in a small JSON file
+ * (POINT_ONE_DEVICES_FILE). Tokens are 256 random bits, so an unsalted hash is
+ * enough — there's nothing to brute-force.
+ */
+
+export interface DeviceRecord {
+  id: string;
+  /** Whatever the device called itself at sign-in (else its User-Agent). */
+  name: string;
+  /** The athlete it signed in as. Absent on tokens minted before athletes existed. */
+  athlete?: string;
+  createdAt: string;
+  lastSeenAt: string | null;
+  revokedAt: string | null;
+}
+
+interface StoredDevice extends DeviceRecord {
+  tokenHash: string;
+}
+
+/** lastSeenAt is kept in memory on every request but written at most this often. */
+const LAST_SEEN_FLUSH_MS = 60_000;
+const MAX_NAME_LENGTH = 80;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class DeviceTokenStore {
+  private readonly devices: StoredDevice[];
+  private readonly byHash = new Map<string, StoredDevice>();
+  private flushTimer: NodeJS.Timeout | undefined;
+  /** Writes are chained so two saves never interleave their temp files. */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly file: string) {
+    this.devices = DeviceTokenStore.load(file);
+    for (const device of this.devices) {
+      this.byHash.set(device.tokenHash, device);
+    }
+  }
+
+  /**
+   * Mint a token for a new device. The token itself is returned once and never
+   * stored. If the devices file can't be written the device is dropped again
+   * and the write error rejects — a token nobody saved would die on restart.
+   */
+  async issue(name: string, athlete: string): Promise<{ device: DeviceRecord; token: string }> {
+    const token = randomBytes(32).toString("base64url");
+    const device: StoredDevice = {
+      id: randomUUID(),
+      name: name.trim().slice(0, MAX_NAME_LENGTH) || "unnamed device",
+      athlete,
+      createdAt: new Date().toISOString(),
+      lastSeenAt: null,
+      revokedAt: null,
+      tokenHash: hashToken(token),
+    };
+    this.devices.push(device);
+    this.byHash.set(device.tokenHash, device);
+    try {
+      await this.save();
+    } catch (err) {
+      this.devices.splice(this.devices.indexOf(device), 1);
+      this.byHash.delete(device.tokenHash);
+      throw err;
+    }
+    return { device: publicRecord(device), token };
+  }
+
+  /** The live device a token belongs to (marking it seen), or undefined. */
+  verify(token: string): DeviceRecord | undefined {
+    const device = this.byHash.get(hashToken(token));
+    if (!device || device.revokedAt) {
+      return undefined;
+    }
+    device.lastSeenAt = new Date().toISOString();
+    this.scheduleFlush();
+    return publicRecord(device);
+  }
+
+  list(): DeviceRecord[] {
+    return this.devices.map(publicRecord);
+  }
+
+  /**
+   * Revoke a device by id. Resolves false if there's no such device. A failed
+   * write rejects, but the revocation still holds in memory until restart.
+   */
+  async revoke(id: string): Promise<boolean> {
+    const device = this.devices.find((d) => d.id === id);
+    if (!device) {
+      return false;
+    }
+    if (!device.revokedAt) {
+      device.revokedAt = new Date().toISOString();
+      await this.save();
+    }
+    return true;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.save().catch((err) =>
+        console.warn(`[devices] could not save ${this.file}: ${(err as Error).message}`),
+      );
+    }, LAST_SEEN_FLUSH_MS);
+    // Losing a minute of last-seen times on shutdown is fine.
+    this.flushTimer.unref();
+  }
+
+  /** Write the file atomically (temp file + rename). */
+  private save(): Promise<void> {
+    const write = async () => {
+      await mkdir(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      await writeFile(tmp, JSON.stringify({ devices: this.devices }, null, 2), "utf8");
+      await rename(tmp, this.file);
+    };
+    this.saving = this.saving.then(write, write);
+    return this.saving;
+  }
+
+  /** Read the file at startup; a missing file is an empty store, a corrupt one is fatal. */
+  private static load(file: string): StoredDevice[] {
+    let raw: string;
+    try {
+      raw = readFileSync(file, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+    try {
+      return (JSON.parse(raw) as { devices: StoredDevice[] }).devices ?? [];
+    } catch (err) {
+      throw new Error(`Device token file ${file} is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+}
+
+function publicRecord(device: StoredDevice): DeviceRecord {
+  const { tokenHash: _tokenHash, ...record } = device;
+  return record;
+}
+
+export const deviceTokens = new DeviceTokenStore(
+  path.resolve(process.env.POINT_ONE_DEVICES_FILE ?? ".point-one-devices.json"),
+);
@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "child_process";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { GitPushQueue, type PushStatus } from "./git-push-queue";
+
+const run = promisify(execFile);
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  return (await run("git", args, { cwd, env: GIT_ENV })).stdout;
+}
+
+async function commitFile(cwd: string, name: string): Promise<string> {
+  mkdirSync(path.dirname(path.join(cwd, name)), { recursive: true });
+  writeFileSync(path.join(cwd, name), name);
+  await git(cwd, ["add", name]);
+  await git(cwd, ["commit", "-m", name]);
+  return (await git(cwd, ["rev-parse", "HEAD"])).trim();
+}
+
+/** A bare `origin` with one commit on main, and a clone of it. */
+async function setup(): Promise<{ origin: string; clone: string }> {
+  const root = mkdtempSync(path.join(tmpdir(), "push-"));
+  const origin = path.join(root, "origin.git");
+  const seed = path.join(root, "seed");
+  await run("git", ["init", "--bare", "-b", "main", origin]);
+  await run("git", ["init", "-b", "main", seed]);
+  await commitFile(seed, "program.json");
+  await git(seed, ["push", origin, "main"]);
+  const clone = path.join(root, "clone");
+  await run("git", ["clone", origin, clone]);
+  return { origin, clone };
+}
+
+function queueFor(clone: string): GitPushQueue {
+  const queue = new GitPushQueue((args) => git(clone, args), (task) => task(), "origin", "main");
+  queue.addLogDir("workout/log");
+  return queue;
+}
+
+/** The brain pushes `name` to origin from a clone of its own. */
+async function brainPushes(origin: string, clone: string, name: string): Promise<string> {
+  const other = path.join(path.dirname(clone), "other");
+  await run("git", ["clone", origin, other]);
+  const sha = await commitFile(other, name);
+  await git(other, ["push", "origin", "main"]);
+  return sha;
+}
+
+/** Push and wait for the attempt to finish. */
+async function pushNow(queue: GitPushQueue): Promise<PushStatus> {
+  queue.schedule();
+  for (;;) {
+    const status = await queue.status();
+    if (status.state !== "pushing") return status;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+test("pushes a new commit on the configured branch", async () => {
+  const { origin, clone } = await setup();
+  const sha = await commitFile(clone, "workout/log/2026-06-09-lower.json");
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "idle");
+  assert.equal((await git(origin, ["rev-parse", "main"])).trim(), sha);
+});
+
+test("refuses to push another branch onto the configured one", async () => {
+  const { origin, clone } = await setup();
+  const before = (await git(origin, ["rev-parse", "main"])).trim();
+  await git(clone, ["checkout", "-b", "experiment"]);
+  await commitFile(clone, "stray.json");
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "wrong-branch");
+  assert.match(status.lastError ?? "", /on experiment, not main/);
+  assert.equal((await git(origin, ["rev-parse", "main"])).trim(), before);
+});
+
+test("rebases session commits onto a program the brain pushed, and pushes them", async () => {
+  const { origin, clone } = await setup();
+  const theirs = await brainPushes(origin, clone, "workout/program-2.json");
+  await commitFile(clone, "workout/log/2026-06-09-lower.json");
+
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "idle");
+  const head = (await git(origin, ["rev-parse", "main"])).trim();
+  assert.equal((await git(clone, ["rev-parse", "HEAD"])).trim(), head);
+  assert.equal((await git(origin, ["rev-parse", "main~1"])).trim(), theirs);
+  assert.match(await git(origin, ["show", "--name-only", "--format=", "main"]), /workout\/log\/2026-06-09-lower\.json/);
+});
+
+test("stops at diverged without rewriting a local commit outside the log", async () => {
+  const { origin, clone } = await setup();
+  await brainPushes(origin, clone, "workout/program-2.json");
+  const sha = await commitFile(clone, "workout/program-local.json");
+
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "diverged");
+  assert.match(status.lastError ?? "", /workout\/program-local\.json/);
+  assert.equal((await git(clone, ["rev-parse", "HEAD"])).trim(), sha);
+});
+
+test("aborts a conflicting rebase and leaves the session commits as they were", async () => {
+  const { origin, clone } = await setup();
+  // Both sides add the same log file with different contents.
+  await brainPushes(origin, clone, "workout/log/2026-06-09-lower.json");
+  mkdirSync(path.join(clone, "workout/log"), { recursive: true });
+  writeFileSync(path.join(clone, "workout/log/2026-06-09-lower.json"), "ours");
+  await git(clone, ["add", "workout/log/2026-06-09-lower.json"]);
+  await git(clone, ["commit", "-m", "ours"]);
+  const ours = (await git(clone, ["rev-parse", "HEAD"])).trim();
+
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "diverged");
+  assert.match(status.lastError ?? "", /conflicted/);
+  assert.equal((await git(clone, ["rev-parse", "HEAD"])).trim(), ours);
+  assert.equal((await git(clone, ["status", "--porcelain"])).trim(), "");
+});
+
+test("fast-forwards when only the remote moved", async () => {
+  const { origin, clone } = await setup();
+  const theirs = await brainPushes(origin, clone, "workout/program-2.json");
+  // Pushing the stale HEAD is rejected as behind; it fast-forwards instead.
+  const status = await pushNow(queueFor(clone));
+  assert.equal(status.state, "idle");
+  assert.equal((await git(clone, ["rev-parse", "HEAD"])).trim(), theirs);
+});
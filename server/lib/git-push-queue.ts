@@ -0,0 +1,241 @@
+/**
+ * Background push for the local-git store (POINT_ONE_PUSH=1). The store
+ * commits each session locally; this gets those commits to the brain's remote
+ * without anyone pushing by hand.
+ *
+ * Safety over cleverness: never force-push, and only ever push the
+ * configured branch — a checkout left on another branch is refused
+ * (`wrong-branch`), not pushed over it. When the remote has moved (the brain
+ * pushed a new program), the local commits are rebased onto it — but only if
+ * every one of them touches nothing outside the session log dirs, so the only
+ * commits ever rewritten are the session commits this server made. Anything
+ * else (a hand-made commit, a merge, a conflicting log) stops the queue at
+ * `diverged`, with the rebase aborted and the commits left as they were for
+ * someone to merge. Either way it keeps retrying on a timer with backoff (a
+ * new commit retries immediately), so the push goes through once the checkout
+ * is fixed.
+ */
+
+export interface PushStatus {
+  remote: string;
+  branch: string;
+  state: "idle" | "pushing" | "retrying" | "diverged" | "wrong-branch";
+  /** Local commits not on the remote-tracking branch (null if unknown). */
+  ahead: number | null;
+  /** Remote-tracking commits not in HEAD, as of the last fetch/push (null if unknown). */
+  behind: number | null;
+  lastPushedAt: string | null;
+  lastError: string | null;
+  nextRetryAt: string | null;
+}
+
+/** Runs one git command in the repo, returning stdout (lock-aware, not queued). */
+export type GitRunner = (args: string[]) => Promise<string>;
+/** Runs a task exclusively against the repo (the store's write queue). */
+export type Exclusive = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** First retry delay after a failed push; doubles up to PUSH_RETRY_MAX_MS. */
+const PUSH_RETRY_BASE_MS = 30_000;
+const PUSH_RETRY_MAX_MS = 15 * 60_000;
+
+export class GitPushQueue {
+  private state: PushStatus["state"] = "idle";
+  private running = false;
+  /** A push was requested while one was running — go again when it ends. */
+  private pending = false;
+  private failures = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private lastPushedAt: string | null = null;
+  private lastError: string | null = null;
+  private nextRetryAt: string | null = null;
+  /** Repo-relative dirs holding only session logs — commits confined to them may be rebased. */
+  private readonly logDirs = new Set<string>();
+
+  constructor(
+    private readonly git: GitRunner,
+    private readonly exclusive: Exclusive,
+    readonly remote: string,
+    readonly branch: string,
+  ) {}
+
+  /** Allow rebasing local commits that touch only files under `dir` (one per athlete). */
+  addLogDir(dir: string): void {
+    this.logDirs.add(dir.replace(/\/+$/, ""));
+  }
+
+  /** Ask for a push soon. Coalesces with one already running or pending. */
+  schedule(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+      this.nextRetryAt = null;
+    }
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    void this.drain();
+  }
+
+  async status(): Promise<PushStatus> {
+    let ahead: number | null = null;
+    let behind: number | null = null;
+    try {
+      // Left = HEAD-only commits, right = remote-only — against the
+      // remote-tracking ref as of the last fetch/push (no network here).
+      const out = await this.git([
+        "rev-list",
+        "--left-right",
+        "--count",
+        `HEAD...${this.remote}/${this.branch}`,
+      ]);
+      const [a, b] = out.trim().split(/\s+/).map(Number);
+      ahead = Number.isFinite(a) ? a : null;
+      behind = Number.isFinite(b) ? b : null;
+    } catch {
+      // No remote-tracking ref yet (never fetched/pushed) — counts unknown.
+    }
+    return {
+      remote: this.remote,
+      branch: this.branch,
+      state: this.state,
+      ahead,
+      behind,
+      lastPushedAt: this.lastPushedAt,
+      lastError: this.lastError,
+      nextRetryAt: this.nextRetryAt,
+    };
+  }
+
+  private async drain(): Promise<void> {
+    this.running = true;
+    try {
+      do {
+        this.pending = false;
+        this.state = "pushing";
+        try {
+          await this.exclusive(() => this.pushOnce());
+          this.failures = 0;
+          this.lastError = null;
+          this.lastPushedAt = new Date().toISOString();
+          this.state = "idle";
+        } catch (err) {
+          this.lastError = (err as Error).message;
+          // These still retry on the timer — someone may fix the checkout.
+          this.state =
+            err instanceof DivergedError
+              ? "diverged"
+              : err instanceof WrongBranchError
+                ? "wrong-branch"
+                : "retrying";
+          console.warn(`[git-push] push to ${this.remote}/${this.branch} failed: ${this.lastError}`);
+          if (!this.pending) {
+            this.scheduleRetry();
+          }
+        }
+      } while (this.pending);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.failures++;
+    const delay = Math.min(PUSH_RETRY_BASE_MS * 2 ** (this.failures - 1), PUSH_RETRY_MAX_MS);
+    this.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.nextRetryAt = null;
+      void this.drain();
+    }, delay);
+    // A pending retry must never keep the process alive on shutdown.
+    this.retryTimer.unref();
+  }
+
+  /**
+   * Push the branch; if the remote moved, rebase the session commits onto it
+   * (or stop) and push again. Refuses unless the configured branch is the one
+   * checked out.
+   */
+  private async pushOnce(): Promise<void> {
+    const checkedOut = (await this.git(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+    if (checkedOut !== this.branch) {
+      throw new WrongBranchError(
+        `the checkout is on ${checkedOut === "HEAD" ? "a detached HEAD" : checkedOut}, not ${this.branch} — not pushing it there`,
+      );
+    }
+    try {
+      await this.git(["push", this.remote, `HEAD:${this.branch}`]);
+      return;
+    } catch (err) {
+      if (!isRejectedAsBehind(err)) {
+        throw new Error(summary(err));
+      }
+    }
+
+    await this.git(["fetch", this.remote, this.branch]);
+    const dirty = await this.git(["status", "--porcelain", "--untracked-files=no"]);
+    if (dirty.trim() !== "") {
+      throw new DivergedError(
+        "remote has moved and the checkout has uncommitted changes — not rebasing; push by hand",
+      );
+    }
+    const stray = await this.outsideLogDirs();
+    if (stray) {
+      throw new DivergedError(
+        `${this.remote}/${this.branch} has moved and a local commit ${stray} — merge by hand; the commits stay here until then`,
+      );
+    }
+    try {
+      await this.git(["rebase", "FETCH_HEAD"]);
+    } catch (err) {
+      await this.git(["rebase", "--abort"]).catch(() => undefined);
+      throw new DivergedError(
+        `rebasing the session commits onto ${this.remote}/${this.branch} conflicted — merge by hand; the commits stay here until then (${summary(err)})`,
+      );
+    }
+    await this.git(["push", this.remote, `HEAD:${this.branch}`]);
+  }
+
+  /**
+   * Why the local-only commits (HEAD not in FETCH_HEAD) can't be rebased, or
+   * undefined if they can: each must be an ordinary commit touching only
+   * files under a session log dir.
+   */
+  private async outsideLogDirs(): Promise<string | undefined> {
+    if ((await this.git(["rev-list", "--merges", "FETCH_HEAD..HEAD"])).trim() !== "") {
+      return "is a merge";
+    }
+    const files = (await this.git(["log", "--format=", "--name-only", "FETCH_HEAD..HEAD"]))
+      .split("\n")
+      .filter(Boolean);
+    const stray = files.find(
+      (file) => !Array.from(this.logDirs).some((dir) => file.startsWith(`${dir}/`)),
+    );
+    return stray === undefined ? undefined : `touches ${stray}, outside the session logs`;
+  }
+}
+
+/** The git output worth reporting from a failed execFile — some commands
+ *  (commit's "nothing to commit") explain themselves on stdout, not stderr. */
+export function gitOutput(err: unknown): string {
+  const e = err as { stdout?: string; stderr?: string; message?: string };
+  return `${e.stderr ?? ""}\n${e.stdout ?? ""}`.trim() || String(e.message ?? err);
+}
+
+/** Our commits can't reach the remote without a human merging. */
+class DivergedError extends Error {}
+
+/** The checkout isn't on the branch we push. */
+class WrongBranchError extends Error {}
+
+/** One line for status/logs: git's own `fatal:`/`error:` line if it gave one. */
+function summary(err: unknown): string {
+  const lines = gitOutput(err).split("\n").map((l) => l.trim()).filter(Boolean);
+  return lines.find((l) => /^(fatal|error):/.test(l)) ?? lines[0] ?? "git failed";
+}
+
+/** A push rejected because the remote has commits we don't. */
+function isRejectedAsBehind(err: unknown): boolean {
+  return /\[rejected\]|non-fast-forward|fetch first|updates were rejected/i.test(gitOutput(err));
+}
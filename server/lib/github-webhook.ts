@@ -0,0 +1,84 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * GitHub push webhooks (POST /api/hooks/github), for the GitHub store: the
+ * brain pushing a new program.json is the one change the server can't see
+ * without asking. A verified push that touches program.json drops the cached
+ * program and tells connected phones, instead of waiting for the next poll.
+ *
+ * Only deliveries signed with GITHUB_WEBHOOK_SECRET (X-Hub-Signature-256, an
+ * HMAC-SHA256 of the raw body) are accepted, and each signed body only once.
+ * Replays are caught by the body's digest, not X-GitHub-Delivery: the
+ * signature doesn't cover headers, so a fresh delivery id on a captured
+ * payload would otherwise get it through. Both content types GitHub offers
+ * are read — `application/json`, and `application/x-www-form-urlencoded`
+ * with the JSON in a `payload` field.
+ */
+
+/** True when `signature` (`sha256=<hex>`) is the HMAC of `body` under `secret`. */
+export function verifySignature(
+  body: Buffer,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  const match = signature?.match(/^sha256=([0-9a-f]{64})$/i);
+  if (!match) {
+    return false;
+  }
+  const expected = createHmac("sha256", secret).update(body).digest();
+  return timingSafeEqual(Buffer.from(match[1], "hex"), expected);
+}
+
+/** The `X-Hub-Signature-256` value for `body` — for fixtures and the send-github-hook CLI. */
+export function signBody(body: Buffer | string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/** The parts of a push event payload this server reads. */
+export interface PushEvent {
+  ref?: string;
+  commits?: { added?: string[]; modified?: string[]; removed?: string[] }[];
+  head_commit?: { added?: string[]; modified?: string[]; removed?: string[] } | null;
+}
+
+/** Does this push land on `branch` and touch `<workoutPath>/program.json`? */
+export function touchesProgram(push: PushEvent, branch: string, workoutPath: string): boolean {
+  if (push.ref !== `refs/heads/${branch}`) {
+    return false;
+  }
+  const programPath = `${workoutPath}/program.json`;
+  const commits = [...(push.commits ?? []), ...(push.head_commit ? [push.head_commit] : [])];
+  return commits.some((c) =>
+    [...(c.added ?? []), ...(c.modified ?? []), ...(c.removed ?? [])].includes(programPath),
+  );
+}
+
+/** Payload digests remembered for replay rejection. */
+const REMEMBERED_DELIVERIES = 1000;
+
+/**
+ * What a delivery is remembered by: the SHA-256 of its signed body. Every
+ * push payload is unique (it names its commits), so a second body with the
+ * same digest is a replay — or a redelivery of one already handled.
+ */
+export function payloadDigest(body: Buffer): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+/** The most recent payload digests seen, oldest evicted first. */
+export class DeliveryLog {
+  private readonly seen = new Set<string>();
+
+  /** Record `digest`; false if it was already seen (a replay). */
+  accept(digest: string): boolean {
+    if (this.seen.has(digest)) {
+      return false;
+    }
+    this.seen.add(digest);
+    if (this.seen.size > REMEMBERED_DELIVERIES) {
+      const oldest = this.seen.values().next().value as string;
+      this.seen.delete(oldest);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,352 @@
+import { after, before, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import {
+  GiteaPointOneStore,
+  GitHubApiPointOneStore,
+  GitLabPointOneStore,
+  LocalGitPointOneStore,
+  StoreError,
+  type PointOneStore,
+} from "./point-one-store";
+
+const WORKOUT_PATH = "point-one/workout";
+const TOKEN = "forge-token";
+
+const session = (note = "") => ({
+  id: "s-2026-06-09-lower-heavy",
+  theme: "lower",
+  name: "Lower Heavy",
+  performedDate: "2026-06-09",
+  exercises: [],
+  note,
+});
+
+interface ForgeFile {
+  text: string;
+  blobSha: string;
+  commit: string;
+}
+
+/**
+ * Just enough of the GitHub contents API and a Gitea and a GitLab
+ * repository-files API over one branch:
+ * files by path, a commit per write, and the races each forge reports — a
+ * create over an existing file, an update citing a stale version.
+ */
+class FakeForge {
+  readonly files = new Map<string, ForgeFile>();
+  /** `METHOD path` of every request, in order. */
+  readonly requests: string[] = [];
+  /** Headers of the last request, to check auth. */
+  lastHeaders: IncomingMessage["headers"] = {};
+  /** Commit to this path (as the brain would) just before the next write lands. */
+  raceOnce: string | undefined;
+  private commits = 0;
+
+  commit(filePath: string, text: string): ForgeFile {
+    const file = {
+      text,
+      blobSha: createHash("sha1").update(text).digest("hex"),
+      commit: `c${++this.commits}`,
+    };
+    this.files.set(filePath, file);
+    return file;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://forge");
+    this.requests.push(`${req.method} ${url.pathname}`);
+    this.lastHeaders = req.headers;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+
+    const gitea = url.pathname.match(/^\/api\/v1\/repos\/coach\/point-one\/(contents|commits)\/?(.*)$/);
+    const gitlab = url.pathname.match(/^\/api\/v4\/projects\/coach%2Fpoint-one\/repository\/files\/(.+)$/);
+    const github = url.pathname.match(/^\/repos\/coach\/point-one\/contents\/(.+)$/);
+    if (github) {
+      return this.github(req.method ?? "GET", decodeURIComponent(github[1]), body, res);
+    }
+    if (gitea?.[1] === "commits") {
+      const file = this.files.get(url.searchParams.get("path") ?? "");
+      return send(res, 200, file ? [{ sha: file.commit, html_url: `http://forge/commit/${file.commit}` }] : []);
+    }
+    if (gitea) {
+      return this.gitea(req.method ?? "GET", decodeURIComponent(gitea[2]), body, res);
+    }
+    if (gitlab) {
+      return this.gitlab(req.method ?? "GET", decodeURIComponent(gitlab[1]), body, res);
+    }
+    send(res, 404, { message: "not found" });
+  }
+
+  private gitea(method: string, filePath: string, body: Record<string, string>, res: ServerResponse): void {
+    if (method === "GET") {
+      const file = this.files.get(filePath);
+      return file
+        ? send(res, 200, { content: Buffer.from(file.text).toString("base64"), sha: file.blobSha })
+        : send(res, 404, { message: "file not found" });
+    }
+    this.race(filePath);
+    const existing = this.files.get(filePath);
+    if (method === "POST" && existing) {
+      return send(res, 422, { message: "repository file already exists" });
+    }
+    if (method === "PUT" && existing?.blobSha !== body.sha) {
+      return send(res, 409, { message: "sha does not match" });
+    }
+    const file = this.commit(filePath, Buffer.from(body.content, "base64").toString("utf8"));
+    send(res, method === "POST" ? 201 : 200, {
+      content: { sha: file.blobSha },
+      commit: { sha: file.commit, html_url: `http://forge/commit/${file.commit}` },
+    });
+  }
+
+  private github(method: string, filePath: string, body: Record<string, string>, res: ServerResponse): void {
+    const existing = this.files.get(filePath);
+    if (method === "GET") {
+      return existing
+        ? send(res, 200, { content: Buffer.from(existing.text).toString("base64"), sha: existing.blobSha })
+        : send(res, 404, { message: "Not Found" });
+    }
+    if (existing?.blobSha !== body.sha) {
+      return send(res, existing ? 409 : 422, { message: existing ? "sha does not match" : "sha is not valid" });
+    }
+    const file = this.commit(filePath, Buffer.from(body.content, "base64").toString("utf8"));
+    send(res, existing ? 200 : 201, {
+      content: { sha: file.blobSha },
+      commit: { sha: file.commit, html_url: `http://forge/commit/${file.commit}` },
+    });
+  }
+
+  private gitlab(method: string, filePath: string, body: Record<string, string>, res: ServerResponse): void {
+    const file = this.files.get(filePath);
+    if (method === "GET" || method === "HEAD") {
+      if (!file) return send(res, 404, { message: "404 File Not Found" });
+      res.setHeader("X-Gitlab-Last-Commit-Id", file.commit);
+      res.setHeader("X-Gitlab-Blob-Id", file.blobSha);
+      return send(res, 200, { content: Buffer.from(file.text).toString("base64"), last_commit_id: file.commit });
+    }
+    this.race(filePath);
+    const existing = this.files.get(filePath);
+    if (method === "POST" && existing) {
+      return send(res, 400, { message: "A file with this name already exists" });
+    }
+    if (method === "PUT" && existing?.commit !== body.last_commit_id) {
+      return send(res, 400, {
+        message: "You are attempting to update a file that has changed since you started editing it.",
+      });
+    }
+    this.commit(filePath, Buffer.from(body.content, "base64").toString("utf8"));
+    send(res, method === "POST" ? 201 : 200, { file_path: filePath, branch: body.branch });
+  }
+
+  private race(filePath: string): void {
+    if (this.raceOnce === filePath) {
+      this.raceOnce = undefined;
+      this.commit(filePath, JSON.stringify({ by: "the brain" }));
+    }
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+let forge: FakeForge;
+let server: Server;
+let base: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    forge.handle(req, res).catch((err) => send(res, 500, { message: (err as Error).message }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  forge = new FakeForge();
+  forge.commit(`${WORKOUT_PATH}/program.json`, JSON.stringify({ schema: 2, generation: 7 }));
+});
+
+const stores: [string, () => PointOneStore, string][] = [
+  [
+    "Gitea",
+    () => {
+      Object.assign(process.env, { GITEA_URL: `${base}/`, GITEA_TOKEN: TOKEN, GITEA_REPO: "coach/point-one" });
+      return new GiteaPointOneStore(WORKOUT_PATH);
+    },
+    `token ${TOKEN}`,
+  ],
+  [
+    "GitLab",
+    () => {
+      Object.assign(process.env, { GITLAB_URL: base, GITLAB_TOKEN: TOKEN, GITLAB_PROJECT: "coach/point-one" });
+      return new GitLabPointOneStore(WORKOUT_PATH);
+    },
+    TOKEN,
+  ],
+];
+
+for (const [label, createStore, auth] of stores) {
+  const logPath = `${WORKOUT_PATH}/log/2026-06-09-lower-heavy.json`;
+
+  test(`${label}: reads program.json from the branch, authenticated`, async () => {
+    assert.deepEqual(await createStore().readProgram(), { schema: 2, generation: 7 });
+    assert.equal(forge.lastHeaders.authorization ?? forge.lastHeaders["private-token"], auth);
+  });
+
+  test(`${label}: creates a log in one commit and reads it back`, async () => {
+    const store = createStore();
+    const result = await store.writeSession(session());
+    assert.equal(result.path, logPath);
+    assert.equal(result.committed, true);
+    assert.equal(result.commit?.sha, forge.files.get(logPath)?.commit);
+    assert.equal(result.commit?.blobSha, forge.files.get(logPath)?.blobSha);
+    assert.deepEqual(await store.readSession("2026-06-09-lower-heavy.json"), session());
+    assert.equal(await store.readSession("2026-06-10-missing.json"), undefined);
+  });
+
+  test(`${label}: updates a log citing the version it read`, async () => {
+    const store = createStore();
+    await store.writeSession(session());
+    const result = await store.writeSession(session("felt strong"));
+    assert.equal(result.commit?.sha, forge.files.get(logPath)?.commit);
+    assert.deepEqual(await store.readSession("2026-06-09-lower-heavy.json"), session("felt strong"));
+    assert.ok(forge.requests.some((r) => r.startsWith("PUT ")));
+  });
+
+  test(`${label}: a commit that lands first is re-read and written over, not clobbered blind`, async () => {
+    const store = createStore();
+    forge.raceOnce = logPath;
+    const result = await store.writeSession(session());
+    assert.equal(result.committed, true);
+    assert.deepEqual(await store.readSession("2026-06-09-lower-heavy.json"), session());
+    // Create refused (the file appeared), then re-read and update.
+    assert.equal(forge.requests.filter((r) => r.startsWith("GET ") && r.endsWith("lower-heavy.json")).length, 3);
+  });
+
+  test(`${label}: reports an existing log with the commit that stored it`, async () => {
+    const store = createStore();
+    const written = await store.writeSession(session());
+    const stored = await store.storedSession("2026-06-09-lower-heavy.json");
+    assert.equal(stored.path, written.path);
+    assert.equal(stored.commit?.sha, written.commit?.sha);
+  });
+}
+
+test("GitHub: a write after its read-back costs no second lookup", async () => {
+  Object.assign(process.env, { GITHUB_API_URL: base, GITHUB_TOKEN: TOKEN, GITHUB_REPO: "coach/point-one" });
+  const store = new GitHubApiPointOneStore(WORKOUT_PATH);
+  const fileName = "2026-06-09-lower-heavy.json";
+
+  // New log: the duplicate check's 404 already says it's a create.
+  assert.equal(await store.readSession(fileName), undefined);
+  await store.writeSession(session(), { fileName });
+  // Changed log: the read-back's sha is the one the update cites.
+  assert.deepEqual(await store.readSession(fileName), session());
+  await store.writeSession(session("felt strong"), { fileName });
+
+  assert.deepEqual(
+    forge.requests.map((r) => r.split(" ")[0]),
+    ["GET", "PUT", "GET", "PUT"],
+  );
+  assert.deepEqual(await store.readSession(fileName), session("felt strong"));
+});
+
+test("GitHub: a log that appeared after its 404 is re-read, not created blind", async () => {
+  Object.assign(process.env, { GITHUB_API_URL: base, GITHUB_TOKEN: TOKEN, GITHUB_REPO: "coach/point-one" });
+  const store = new GitHubApiPointOneStore(WORKOUT_PATH);
+  const fileName = "2026-06-09-lower-heavy.json";
+
+  assert.equal(await store.readSession(fileName), undefined);
+  forge.commit(`${WORKOUT_PATH}/log/${fileName}`, JSON.stringify({ by: "the brain" }));
+  const result = await store.writeSession(session(), { fileName });
+  assert.equal(result.committed, true);
+  assert.deepEqual(await store.readSession(fileName), session());
+});
+
+test("GitHub: an unreachable API is a retryable outage, not a missing program", async () => {
+  // A port nothing listens on: the fetch itself rejects.
+  const closed = createServer();
+  await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+  const { port } = closed.address() as AddressInfo;
+  await new Promise((resolve) => closed.close(resolve));
+  Object.assign(process.env, { GITHUB_API_URL: `http://127.0.0.1:${port}`, GITHUB_TOKEN: TOKEN });
+  const store = new GitHubApiPointOneStore(WORKOUT_PATH);
+
+  await assert.rejects(
+    store.readProgram(),
+    (err) => err instanceof StoreError && err.kind === "transient" && err.retryable,
+  );
+});
+
+const run = promisify(execFile);
+
+/** A git repo with a program and an identity to commit as, and a store on it. */
+async function localGitStore(): Promise<{ repo: string; store: LocalGitPointOneStore }> {
+  const repo = mkdtempSync(path.join(tmpdir(), "trailers-"));
+  await run("git", ["init", "-b", "main", repo]);
+  await run("git", ["-C", repo, "config", "user.name", "test"]);
+  await run("git", ["-C", repo, "config", "user.email", "test@example.com"]);
+  mkdirSync(path.join(repo, "workout"));
+  writeFileSync(path.join(repo, "workout/program.json"), JSON.stringify({ schema: 2, generation: 7 }));
+  await run("git", ["-C", repo, "add", "."]);
+  await run("git", ["-C", repo, "commit", "-m", "program"]);
+  return { repo, store: new LocalGitPointOneStore(repo, "workout", false) };
+}
+
+/** `git log -1 --format='%(trailers:key=<key>,valueonly)'` — what the brain reads. */
+async function trailer(repo: string, key: string): Promise<string> {
+  const { stdout } = await run("git", ["-C", repo, "log", "-1", `--format=%(trailers:key=${key},valueonly)`]);
+  return stdout.trim();
+}
+
+test("LocalGit: a session commit carries trailers the brain can read from git log", async () => {
+  const { repo, store } = await localGitStore();
+  await store.writeSession(
+    { ...session(), sealed: "departure", programGeneration: 7 },
+    { device: "Law's phone" },
+  );
+
+  assert.equal(await trailer(repo, "Session-Id"), "s-2026-06-09-lower-heavy");
+  assert.equal(await trailer(repo, "Performed-Date"), "2026-06-09");
+  assert.equal(await trailer(repo, "Sealed"), "departure");
+  assert.equal(await trailer(repo, "Program-Generation"), "7");
+  assert.equal(await trailer(repo, "Device"), "Law's phone");
+});
+
+test("LocalGit: a session commit leaves missing values out rather than empty", async () => {
+  const { repo, store } = await localGitStore();
+  await store.writeSession(session(), { device: "  " });
+
+  const { stdout } = await run("git", ["-C", repo, "log", "-1", "--format=%(trailers:only,unfold)"]);
+  const keys = stdout.trim().split("\n").map((line) => line.split(":")[0]);
+  assert.ok(keys.includes("Session-Id"));
+  for (const absent of ["Sealed", "Program-Generation", "Device"]) {
+    assert.ok(!keys.includes(absent), `${absent} should be left out`);
+  }
+});
+
+test("LocalGit: a newline in the device label can't forge a trailer", async () => {
+  const { repo, store } = await localGitStore();
+  await store.writeSession(session(), { device: "phone\nSession-Id: forged\nSealed: auto" });
+
+  assert.equal(await trailer(repo, "Session-Id"), "s-2026-06-09-lower-heavy");
+  assert.equal(await trailer(repo, "Sealed"), "");
+  assert.equal(await trailer(repo, "Device"), "phone Session-Id: forged Sealed: auto");
+});
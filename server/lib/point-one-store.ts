@@ -1,10 +1,16 @@
 import { execFile } from "child_process";
 import { promisify } from "util";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir, stat, unlink, readdir } from "fs/promises";
+import { readFileSync, watch } from "fs";
 import path from "path";
+import { demoProgram } from "../fixtures/demo-program";
+import { GitPushQueue, gitOutput, type PushStatus } from "./git-push-queue";
+import { calendarDateIn, DEFAULT_TIME_ZONE, isTimeZone } from "@shared/seam";
 
 const execFileAsync = promisify(execFile);
 
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 /**
  * The "git seam" — this frontend is a thin limb of a separate brain (Point One),
  * whose canonical state is a git repo. The brain writes the program (the plan);
@@ -18,21 +24,181 @@ export interface PointOneStore {
   /** Read + parse the program (the plan) the brain wrote. */
   readProgram(): Promise<unknown>;
   /** Append a performed session (actuals). Returns the written path + whether it committed. */
-  writeSession(session: unknown): Promise<{ path: string; committed: boolean }>;
+  writeSession(session: unknown, options?: WriteOptions): Promise<WriteResult>;
+  /** Background push state, for stores that push (local git with POINT_ONE_PUSH=1). */
+  pushStatus?(): Promise<PushStatus | undefined>;
+  /** Read one log file back by filename (`<date>-<slug>.json`); undefined if it doesn't exist. */
+  readSession(fileName: string): Promise<unknown | undefined>;
+  /**
+   * A log file that already exists, reported the way writeSession reports a
+   * write — same `path` shape, plus the last commit that touched it when the
+   * backend keeps commits. For a write skipped as identical to what's stored.
+   */
+  storedSession(fileName: string): Promise<StoredSession>;
+  /** Every log file under `<workoutPath>/log/`, newest first, with its last commit. */
+  listSessions?(): Promise<LoggedSession[]>;
+  /**
+   * Call `onChange` when program.json may have changed, for stores that can be
+   * told (a file on disk). Returns a stop function. Stores without it are
+   * polled instead (see program-watch.ts).
+   */
+  watchProgram?(onChange: () => void): () => void;
+  /** Drop any cached program.json so the next read goes to the source (stores that cache). */
+  invalidateProgram?(): void;
+  /** Check the backend itself — repo, branch, credentials — for GET /api/health/deep. */
+  checkHealth?(): Promise<StoreHealth>;
+  /**
+   * Past versions of program.json, newest first, at most `limit` — for
+   * GET /api/program/generations and /diff. Stores that keep no history
+   * (a plain directory, Gitea, GitLab) don't have it.
+   */
+  programHistory?(limit: number): Promise<ProgramVersion[]>;
+}
+
+/** program.json as one commit left it. */
+export interface ProgramVersion {
+  /** The commit that wrote this version; null in a store without commits. */
+  commit: LoggedSession["commit"];
+  /** As parsed — not yet linted. Versions that aren't valid JSON are left out. */
+  program: unknown;
+}
+
+/** A past program.json's text as JSON, or undefined if it doesn't parse. */
+function parseProgramVersion(raw: string | undefined): unknown {
+  if (raw === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/** One finding of a deep health check. */
+export interface HealthCheck {
+  /** Stable key the client explains from: `repo`, `branch`, `token`, `write`, `rate-limit`… */
+  name: string;
+  ok: boolean;
+  /** What was found, or what's wrong in words someone can act on. */
+  detail: string;
+}
+
+/** What a store can say about its backend (GET /api/health/deep). */
+export interface StoreHealth {
+  checks: HealthCheck[];
+  /** This process's last successful read from / write to the backend; null if none yet. */
+  lastReadAt?: string | null;
+  lastWriteAt?: string | null;
+  /** The API's rate limit as of the check. */
+  rateLimit?: { limit: number; remaining: number; resetAt: string };
+}
+
+/** How long one health probe waits before calling the backend unreachable. */
+const HEALTH_TIMEOUT_MS = 5_000;
+
+/** How a session write is filed and attributed. */
+export interface WriteOptions {
+  /**
+   * The log file to write. Defaults to `sessionFileName(session)`; the outbox
+   * passes a `-2`, `-3`… name when another session already has it.
+   */
+  fileName?: string;
+  /** The signed-in device's label, for the commit's `Device` trailer. */
+  device?: string;
+}
+
+/** What a session write did. */
+export interface WriteResult {
+  path: string;
+  committed: boolean;
+  /** Why no commit was made, when `committed` is false and a commit was attempted. */
+  skipReason?: string;
+  /** The commit that wrote the file, when `committed` (and the backend said). */
+  commit?: CommitReceipt;
+}
+
+/** Where an existing log file lives, and the commit that last wrote it. */
+export type StoredSession = Pick<WriteResult, "path" | "commit">;
+
+/**
+ * Proof a session reached git — what the phone keeps so "the brain never saw
+ * it" can be checked against a real commit.
+ */
+export interface CommitReceipt {
+  sha: string;
+  /** The log file's blob sha in that commit. */
+  blobSha?: string;
+  /** A page showing the commit, when the backend has one (not local git). */
+  url?: string;
+}
+
+/** A session log file as the store sees it (GET /api/sessions). */
+export interface LoggedSession {
+  fileName: string;
+  /** Repo-relative: `<workoutPath>/log/<fileName>`. */
+  path: string;
+  /** The filename's `<YYYY-MM-DD>` prefix (D8), or null if it has none. */
+  performedDate: string | null;
+  /** The last commit that touched the file; null when it isn't committed. */
+  commit: { sha: string; committedAt: string } | null;
+}
+
+/** Build a listing entry for a log file. */
+function loggedSession(
+  workoutPath: string,
+  fileName: string,
+  commit: LoggedSession["commit"],
+): LoggedSession {
+  return {
+    fileName,
+    path: logRelPath(workoutPath, fileName),
+    performedDate: fileName.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? null,
+    commit,
+  };
+}
+
+/** Newest first — filenames lead with the performed date. */
+const byNewest = (a: LoggedSession, b: LoggedSession) => b.fileName.localeCompare(a.fileName);
+
+/** Parse a log file read back from a store; `where` names it in the error. */
+function parseSessionLog(raw: string, where: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Session log ${where} is not valid JSON: ${(err as Error).message}`);
+  }
 }
 
 const DEFAULT_REPO = "/Users/law/Documents/Claude Cowork/Point One";
 
-/** Path of the program file, relative to the repo root. */
-const PROGRAM_REL = path.join("point-one", "workout", "program.json");
-/** Directory actuals are written into, relative to the repo root. */
-const LOG_REL = path.join("point-one", "workout", "log");
+/** Workout dir within the repo, from POINT_ONE_WORKOUT_PATH. Leading/trailing
+ *  slashes are stripped so every store controls its own path joins. */
+export function workoutPathFromEnv(): string {
+  return (process.env.POINT_ONE_WORKOUT_PATH ?? "point-one/workout").replace(
+    /^\/+|\/+$/g,
+    "",
+  );
+}
+
+/** The athlete's zone for calendar dates (D8), from POINT_ONE_TIMEZONE — a
+ *  program's own `timeZone` wins over it. Throws on a zone Intl doesn't know. */
+export function timeZoneFromEnv(): string {
+  const zone = process.env.POINT_ONE_TIMEZONE?.trim();
+  if (!zone) {
+    return DEFAULT_TIME_ZONE;
+  }
+  if (!isTimeZone(zone)) {
+    throw new Error(`POINT_ONE_TIMEZONE=${zone} is not a time zone (expected an IANA name like America/New_York).`);
+  }
+  return zone;
+}
 
 /** POSIX-join workout path + "log" + filename, asserting the filename can't
- *  escape the log dir. Shared by both stores so their layout can't drift. The
+ *  escape the log dir. Shared by every store so their layout can't drift. The
  *  filename is already slugified (no `/`, `\`, `.`), but we re-assert here as
  *  defense in depth in case the slug logic ever changes. */
-function logRelPath(workoutPath: string, fileName: string): string {
+export function logRelPath(workoutPath: string, fileName: string): string {
   if (fileName.includes("/") || fileName.includes("\\") || fileName.includes("..")) {
     throw new Error(`Refusing to write session to unsafe filename: ${fileName}`);
   }
@@ -40,18 +206,53 @@ function logRelPath(workoutPath: string, fileName: string): string {
 }
 
 /** Build the `<date>-<slug>.json` filename for a performed session. Shared by
- *  both stores so the naming (and its path-traversal guard via slugify) can't
+ *  every store so the naming (and its path-traversal guard via slugify) can't
  *  drift between local and remote backends. */
-function sessionFileName(session: SessionLike): string {
+export function sessionFileName(session: SessionLike): string {
   const date = sessionDate(session);
   const slug = slugify(String(session.name));
   return `${date}-${slug}.json`;
 }
 
+/** What the `App-Version` trailer says: APP_VERSION, else the deploy's commit, else package.json. */
+const APP_VERSION =
+  process.env.APP_VERSION ??
+  process.env.RAILWAY_GIT_COMMIT_SHA?.slice(0, 7) ??
+  process.env.npm_package_version;
+
+/**
+ * The commit message for a session log: the subject line people read, then
+ * git trailers the brain can ingest from `git log` alone without opening the
+ * file (e.g. `git log --format='%(trailers:key=Session-Id,valueonly)'`).
+ * Missing values are left out rather than written empty.
+ */
+function sessionCommitMessage(session: unknown, device?: string): string {
+  const s = session as SessionLike & { id?: unknown; sealed?: unknown; programGeneration?: unknown };
+  const date = sessionDate(s);
+  const trailers = [
+    ["Session-Id", s.id],
+    ["Performed-Date", date],
+    ["Sealed", s.sealed],
+    ["Program-Generation", s.programGeneration],
+    ["Device", device],
+    ["App-Version", APP_VERSION],
+  ]
+    .filter(([, value]) => value !== undefined && value !== null && oneLine(String(value)) !== "")
+    .map(([key, value]) => `${key}: ${oneLine(String(value))}`);
+  return `workout: log ${oneLine(String(s.name))} ${date}\n\n${trailers.join("\n")}`;
+}
+
+/** Collapse to one bounded line — a newline in a value would forge a trailer. */
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim().slice(0, 120);
+}
+
 /** A workout session, minimally — only what the store needs to name + date the file. */
-interface SessionLike {
+export interface SessionLike {
   name: string;
   performedDate?: string;
+  /** The zone performedDate was taken in (D8). */
+  timeZone?: string;
   completedAt?: string;
   completedDate?: string;
   date?: string;
@@ -70,21 +271,11 @@ function slugify(name: string): string {
   return slug || "session";
 }
 
-/** YYYY-MM-DD in America/Los_Angeles — the contract's calendar-date rule (D8).
- *  Never a UTC slice: a session completed after 5pm PT is still today's. */
-function ptDate(d: Date): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/Los_Angeles",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(d);
-}
-
 /**
  * Resolve the YYYY-MM-DD date for a session. The client-stamped
- * `performedDate` (the PT calendar date of the first logged set) is
- * authoritative; timestamps are a legacy fallback, interpreted in PT.
+ * `performedDate` (the calendar date of the first logged set) is
+ * authoritative; timestamps are a legacy fallback, read as a calendar date in
+ * the session's own `timeZone`, else the configured one — never a UTC slice.
  */
 function sessionDate(session: SessionLike): string {
   if (
@@ -93,35 +284,43 @@ function sessionDate(session: SessionLike): string {
   ) {
     return session.performedDate;
   }
+  const zone =
+    typeof session.timeZone === "string" && isTimeZone(session.timeZone)
+      ? session.timeZone
+      : timeZoneFromEnv();
   const raw = session.completedAt ?? session.completedDate ?? session.date;
   if (raw) {
     const d = new Date(raw);
     if (!Number.isNaN(d.getTime())) {
-      return ptDate(d);
+      return calendarDateIn(d, zone);
     }
   }
-  return ptDate(new Date());
+  return calendarDateIn(new Date(), zone);
 }
 
+/** Quiet period before a program.json change is reported (one write fires several events). */
+const PROGRAM_WATCH_DEBOUNCE_MS = 250;
+
 /**
- * Local-git implementation: reads/writes files on disk and commits via the `git`
- * CLI against a local clone of the Point One repo.
- *
- * Structured so a GitHubApiPointOneStore (Octokit / contents API) could be
- * swapped in for a remote deploy where there is no local checkout — it would
- * implement the same PointOneStore interface, reading via GET contents and
- * writing via PUT contents (which commits in one call). Routes depend only on
- * the interface, never on this class.
+ * Plain-filesystem implementation: reads and writes the same `program.json` /
+ * `log/` layout as the git-backed stores, under a directory on disk, with no
+ * git at all (POINT_ONE_STORE=fs). Also the base of LocalGitPointOneStore,
+ * which adds the commit — so the two can't disagree about where files go.
  */
-export class LocalGitPointOneStore implements PointOneStore {
-  private readonly repo: string;
+export class FileSystemPointOneStore implements PointOneStore {
+  protected readonly repo: string;
+  protected readonly workoutPath: string;
 
-  constructor(repo: string = process.env.POINT_ONE_REPO ?? DEFAULT_REPO) {
+  constructor(
+    repo: string = process.env.POINT_ONE_REPO ?? DEFAULT_REPO,
+    workoutPath: string = workoutPathFromEnv(),
+  ) {
     this.repo = repo;
+    this.workoutPath = workoutPath;
   }
 
   async readProgram(): Promise<unknown> {
-    const programPath = path.join(this.repo, PROGRAM_REL);
+    const programPath = path.join(this.repo, this.workoutPath, "program.json");
     let raw: string;
     try {
       raw = await readFile(programPath, "utf8");
@@ -141,16 +340,112 @@ export class LocalGitPointOneStore implements PointOneStore {
 
   async writeSession(
     session: unknown,
-  ): Promise<{ path: string; committed: boolean }> {
-    const s = session as SessionLike;
-    const date = sessionDate(s);
-    const fileName = sessionFileName(s);
+    options: WriteOptions = {},
+  ): Promise<WriteResult> {
+    const filePath = await this.writeSessionFile(session, options.fileName);
+    // Nothing to commit — the file on disk is the whole delivery.
+    return { path: filePath, committed: false };
+  }
+
+  /**
+   * Watch the workout dir rather than the file: the brain's commit (or a `git
+   * pull`) replaces program.json, and a watch on the old inode would go quiet.
+   * Bursts of events from one write are debounced into one call.
+   */
+  watchProgram(onChange: () => void): () => void {
+    let timer: NodeJS.Timeout | undefined;
+    const watcher = watch(path.join(this.repo, this.workoutPath), (_event, fileName) => {
+      if (fileName && fileName.toString() !== "program.json") return;
+      clearTimeout(timer);
+      timer = setTimeout(onChange, PROGRAM_WATCH_DEBOUNCE_MS);
+    });
+    watcher.on("error", (err) =>
+      console.warn(`[point-one-store] program.json watch failed: ${err.message}`),
+    );
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
 
-    const logDir = path.join(this.repo, LOG_REL);
+  async readSession(fileName: string): Promise<unknown | undefined> {
+    const filePath = path.join(this.repo, logRelPath(this.workoutPath, fileName));
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+    return parseSessionLog(raw, filePath);
+  }
+
+  /** The absolute path, as writeSessionFile returns it; no commits here. */
+  async storedSession(fileName: string): Promise<StoredSession> {
+    return { path: path.resolve(this.repo, logRelPath(this.workoutPath, fileName)) };
+  }
+
+  async listSessions(): Promise<LoggedSession[]> {
+    const names = await this.logFileNames();
+    return names.map((name) => loggedSession(this.workoutPath, name, null)).sort(byNewest);
+  }
+
+  /** Does POINT_ONE_REPO exist, and the workout dir inside it? */
+  async checkHealth(): Promise<StoreHealth> {
+    const isDir = async (dir: string) => {
+      try {
+        return (await stat(dir)).isDirectory();
+      } catch {
+        return false;
+      }
+    };
+    const workoutDir = path.join(this.repo, this.workoutPath);
+    const repoOk = await isDir(this.repo);
+    const workoutOk = repoOk && (await isDir(workoutDir));
+    return {
+      checks: [
+        {
+          name: "repo",
+          ok: repoOk,
+          detail: repoOk ? this.repo : `${this.repo} does not exist — check POINT_ONE_REPO.`,
+        },
+        {
+          name: "workout-dir",
+          ok: workoutOk,
+          detail: workoutOk
+            ? workoutDir
+            : `${workoutDir} does not exist — check POINT_ONE_WORKOUT_PATH, or the brain hasn't written a program yet.`,
+        },
+      ],
+    };
+  }
+
+  /** The `.json` files in the log dir (none if it doesn't exist yet). */
+  protected async logFileNames(): Promise<string[]> {
+    try {
+      const names = await readdir(path.join(this.repo, this.workoutPath, "log"));
+      return names.filter((name) => name.endsWith(".json"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  /** Write the session's log file (overwriting a same-day re-save). Returns
+   *  the absolute path written. */
+  protected async writeSessionFile(
+    session: unknown,
+    fileName: string = sessionFileName(session as SessionLike),
+  ): Promise<string> {
+    const logDir = path.join(this.repo, this.workoutPath, "log");
 
     // Resolve + assert the target stays inside the log dir (defense in depth on
     // top of slugify, in case the slug logic ever changes).
-    const filePath = path.resolve(logDir, fileName);
+    const filePath = path.resolve(this.repo, logRelPath(this.workoutPath, fileName));
     const logDirResolved = path.resolve(logDir);
     if (
       filePath !== path.join(logDirResolved, fileName) ||
@@ -163,45 +458,470 @@ export class LocalGitPointOneStore implements PointOneStore {
     // Overwrite if the same date+slug already exists — it's the same session re-saved.
     await writeFile(filePath, JSON.stringify(session, null, 2) + "\n", "utf8");
 
-    const committed = await this.commitFile(filePath, String(s.name), date);
-    return { path: filePath, committed };
+    return filePath;
+  }
+}
+
+/** Per clone (resolved repo path): the one git queue and pusher its stores share. */
+const gitQueues = new Map<string, SerialQueue>();
+const gitPushers = new Map<string, GitPushQueue>();
+
+/**
+ * Local-git implementation: reads/writes files on disk (via
+ * FileSystemPointOneStore) and commits via the `git` CLI against a local
+ * clone of the Point One repo.
+ *
+ * Routes depend only on the PointOneStore interface, never on this class —
+ * GitHubApiPointOneStore implements the same interface for remote deploys
+ * where there is no local checkout.
+ */
+export class LocalGitPointOneStore extends FileSystemPointOneStore {
+  /**
+   * Every write + commit runs through here, one at a time. Two devices
+   * delivering at once (or deliverPending racing a departure) would otherwise
+   * overlap `git add`/`git commit` and trip over each other's index.lock.
+   * Shared by every store on the same clone (one per athlete).
+   */
+  private readonly gitQueue: SerialQueue;
+  /** Opt-in (POINT_ONE_PUSH=1): pushes each commit to the brain's remote in the background. */
+  private readonly pusher: GitPushQueue | undefined;
+  /** program.json per commit sha — a commit's contents never change. */
+  private readonly programAt = new Map<string, unknown>();
+
+  constructor(
+    repo?: string,
+    workoutPath?: string,
+    push: boolean = process.env.POINT_ONE_PUSH === "1",
+  ) {
+    super(repo, workoutPath);
+    const clone = path.resolve(this.repo);
+    let queue = gitQueues.get(clone);
+    if (!queue) {
+      queue = new SerialQueue();
+      gitQueues.set(clone, queue);
+    }
+    this.gitQueue = queue;
+    if (push) {
+      let pusher = gitPushers.get(clone);
+      if (!pusher) {
+        pusher = new GitPushQueue(
+          (args) => this.git(args),
+          (task) => this.gitQueue.run(task),
+          process.env.POINT_ONE_PUSH_REMOTE ?? "origin",
+          process.env.POINT_ONE_PUSH_BRANCH ?? "main",
+        );
+        gitPushers.set(clone, pusher);
+      }
+      pusher.addLogDir(`${this.workoutPath}/log`);
+      // Commits made before a restart may never have left the machine.
+      pusher.schedule();
+      this.pusher = pusher;
+    }
+  }
+
+  async writeSession(
+    session: unknown,
+    options: WriteOptions = {},
+  ): Promise<WriteResult> {
+    const result = await this.gitQueue.run(async (): Promise<WriteResult> => {
+      const filePath = await this.writeSessionFile(session, options.fileName);
+      const skipReason = await this.commitFile(filePath, sessionCommitMessage(session, options.device));
+      return skipReason === undefined
+        ? { path: filePath, committed: true, commit: await this.headReceipt(filePath) }
+        : { path: filePath, committed: false, skipReason };
+    });
+    if (result.committed) {
+      this.pusher?.schedule();
+    }
+    return result;
+  }
+
+  async pushStatus(): Promise<PushStatus | undefined> {
+    return this.pusher?.status();
+  }
+
+  /** `git log -- program.json`, each commit's copy read with `git show`. */
+  async programHistory(limit: number): Promise<ProgramVersion[]> {
+    const rel = `${this.workoutPath}/program.json`;
+    const out = await this.git(["log", `--max-count=${limit}`, "--format=%H %cI", "--", rel]);
+    const versions: ProgramVersion[] = [];
+    for (const line of out.split("\n").filter(Boolean)) {
+      const [sha, committedAt] = line.split(" ");
+      if (!this.programAt.has(sha)) {
+        // A commit that deleted the file has nothing to show.
+        const raw = await this.git(["show", `${sha}:./${rel}`]).catch(() => undefined);
+        this.programAt.set(sha, parseProgramVersion(raw));
+      }
+      const program = this.programAt.get(sha);
+      if (program !== undefined) {
+        versions.push({ commit: { sha, committedAt }, program });
+      }
+    }
+    return versions;
+  }
+
+  /** The directory checks, plus: is it a git work tree, and on which branch? */
+  async checkHealth(): Promise<StoreHealth> {
+    const health = await super.checkHealth();
+    if (!health.checks[0].ok) {
+      return health;
+    }
+    let branch: string;
+    try {
+      branch = (await this.git(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+    } catch (err) {
+      health.checks.push({
+        name: "git",
+        ok: false,
+        detail: `${this.repo} is not a git repository (${(err as Error).message.split("\n")[0]}) — sessions are written but never committed.`,
+      });
+      return health;
+    }
+    health.checks.push({ name: "git", ok: true, detail: "git work tree" });
+    health.checks.push({
+      name: "branch",
+      ok: branch !== "HEAD",
+      detail: branch === "HEAD" ? "Detached HEAD — commits won't land on a branch." : branch,
+    });
+    return health;
+  }
+
+  /**
+   * The files on disk, each with the last commit that touched it — one
+   * `git log` over the log dir, newest commit first, so a file's first
+   * appearance is its latest commit. A file never committed (or a repo that
+   * isn't one) has `commit: null`.
+   */
+  async listSessions(): Promise<LoggedSession[]> {
+    const names = await this.logFileNames();
+    const commits = new Map<string, NonNullable<LoggedSession["commit"]>>();
+    try {
+      const out = await this.git([
+        "log",
+        "--format=%x01%H %cI",
+        "--name-only",
+        "--relative",
+        "--",
+        `${this.workoutPath}/log`,
+      ]);
+      for (const chunk of out.split("\x01").slice(1)) {
+        const [header, ...files] = chunk.split("\n").filter(Boolean);
+        const [sha, committedAt] = header.split(" ");
+        for (const file of files) {
+          const name = path.posix.basename(file);
+          if (!commits.has(name)) {
+            commits.set(name, { sha, committedAt });
+          }
+        }
+      }
+    } catch (err) {
+      console.warn(`[point-one-store] git log for the session listing failed: ${describeGitFailure(err)}`);
+    }
+    return names
+      .map((name) => loggedSession(this.workoutPath, name, commits.get(name) ?? null))
+      .sort(byNewest);
   }
 
   /**
    * Commit ONLY the one file via pathspec. Never `git add -A`, never touch
    * program.json or other files, never push. If anything goes wrong (nothing to
-   * commit, not a git repo, etc.) leave the file written and return false.
+   * commit, not a git repo, etc.) leave the file written and return the reason
+   * the commit was skipped; undefined means it committed.
    */
   private async commitFile(
     filePath: string,
-    name: string,
-    date: string,
-  ): Promise<boolean> {
+    message: string,
+  ): Promise<string | undefined> {
+    try {
+      await this.git(["add", "--", filePath]);
+      await this.git(["commit", "-m", message, "--", filePath]);
+      return undefined;
+    } catch (err) {
+      const reason = describeGitFailure(err);
+      // Non-fatal: the file is on disk; the brain can pick it up on next sync.
+      console.warn(`[point-one-store] git commit skipped for ${filePath}: ${reason}`);
+      return reason;
+    }
+  }
+
+  /** The file's path plus `git log -1 -- <file>` and its blob in that commit. */
+  async storedSession(fileName: string): Promise<StoredSession> {
+    const stored = await super.storedSession(fileName);
+    const rel = path.relative(this.repo, stored.path).split(path.sep).join("/");
+    try {
+      const sha = (await this.git(["log", "-1", "--format=%H", "--", rel])).trim();
+      if (!sha) {
+        return stored; // on disk but never committed
+      }
+      const blobSha = (await this.git(["rev-parse", `${sha}:${rel}`])).trim();
+      return { ...stored, commit: { sha, blobSha } };
+    } catch (err) {
+      console.warn(`[point-one-store] could not look up the commit for ${stored.path}: ${describeGitFailure(err)}`);
+      return stored;
+    }
+  }
+
+  /**
+   * HEAD's sha and `filePath`'s blob in it — right after our own commit, inside
+   * the git queue, so HEAD is that commit. Undefined if git won't say (the
+   * commit itself stands either way).
+   */
+  private async headReceipt(filePath: string): Promise<CommitReceipt | undefined> {
+    try {
+      const rel = path.relative(this.repo, filePath).split(path.sep).join("/");
+      const [sha, blobSha] = (await this.git(["rev-parse", "HEAD", `HEAD:${rel}`])).trim().split("\n");
+      return { sha, blobSha };
+    } catch (err) {
+      console.warn(`[point-one-store] could not read back the commit for ${filePath}: ${describeGitFailure(err)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Run one git command against the repo, returning its stdout. Someone else
+   * holding index.lock (the brain committing, an editor's git integration) is
+   * waited out with backoff; a lock older than STALE_LOCK_MS is a crashed
+   * git's leftover and is removed — safe because our own git calls are
+   * serialized.
+   */
+  private async git(args: string[]): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { stdout } = await execFileAsync("git", ["-C", this.repo, ...args]);
+        return stdout;
+      } catch (err) {
+        if (!isIndexLockError(err) || attempt >= GIT_LOCK_ATTEMPTS) {
+          throw err;
+        }
+        if (await this.removeStaleIndexLock()) {
+          continue;
+        }
+        await sleep(GIT_LOCK_BACKOFF_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /** Remove index.lock if it's older than STALE_LOCK_MS. True if removed. */
+  private async removeStaleIndexLock(): Promise<boolean> {
     try {
-      await execFileAsync("git", ["-C", this.repo, "add", "--", filePath]);
-      await execFileAsync("git", [
+      const { stdout } = await execFileAsync("git", [
         "-C",
         this.repo,
-        "commit",
-        "-m",
-        `workout: log ${name} ${date}`,
-        "--",
-        filePath,
+        "rev-parse",
+        "--git-path",
+        "index.lock",
       ]);
+      const lockPath = path.resolve(this.repo, stdout.trim());
+      const { mtimeMs } = await stat(lockPath);
+      const age = Date.now() - mtimeMs;
+      if (age < STALE_LOCK_MS) {
+        return false;
+      }
+      await unlink(lockPath);
+      console.warn(
+        `[point-one-store] removed stale git lock ${lockPath} (${Math.round(age / 1000)}s old)`,
+      );
       return true;
+    } catch {
+      // Lock already gone (or unreadable) — let the retry find out.
+      return false;
+    }
+  }
+}
+
+/** Attempts per git command while index.lock is held by someone else. */
+const GIT_LOCK_ATTEMPTS = 6;
+/** First wait for a held index.lock; doubles per attempt (~6s in total). */
+const GIT_LOCK_BACKOFF_MS = 200;
+/** An index.lock older than this is left over from a crashed git process. */
+const STALE_LOCK_MS = 60_000;
+
+/** Serializes async work: each task starts once the previous one settles. */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function isIndexLockError(err: unknown): boolean {
+  return /index\.lock/.test(gitOutput(err));
+}
+
+/** A short, caller-facing reason a commit didn't happen. */
+function describeGitFailure(err: unknown): string {
+  const output = gitOutput(err);
+  if (/nothing to commit|no changes added to commit|nothing added to commit/i.test(output)) {
+    return "nothing to commit (file unchanged)";
+  }
+  if (/not a git repository/i.test(output)) {
+    return "not a git repository (check POINT_ONE_REPO)";
+  }
+  if (isIndexLockError(output)) {
+    return "git index is locked by another process";
+  }
+  return output.split("\n")[0];
+}
+
+/**
+ * How a store failure should be read by the caller: `conflict` (the file moved
+ * under us — refetch and retry), `transient` (5xx / network), `rate-limited`
+ * (wait for Retry-After), or `permanent` (bad token, missing repo, rejected
+ * content — retrying will never help).
+ */
+export type StoreErrorKind = "conflict" | "transient" | "rate-limited" | "permanent";
+
+/** A classified store failure — lets routes tell "try again later" from "never". */
+export class StoreError extends Error {
+  constructor(
+    message: string,
+    readonly kind: StoreErrorKind,
+    /** Server-advised wait before retrying (Retry-After / rate-limit reset). */
+    readonly retryAfterMs?: number,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "StoreError";
+  }
+
+  get retryable(): boolean {
+    return this.kind !== "permanent";
+  }
+}
+
+/** Retry-After (seconds or HTTP date), else the primary rate-limit reset. */
+function retryAfterMs(res: Response): number | undefined {
+  const header = res.headers.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const at = Date.parse(header);
+    if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  }
+  if (res.headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(res.headers.get("x-ratelimit-reset"));
+    if (Number.isFinite(reset) && reset > 0) return Math.max(0, reset * 1000 - Date.now());
+  }
+  return undefined;
+}
+
+/** Does a failed write mean "the file changed under us"? Per-API wording. */
+type ConflictTest = (status: number, body: string) => boolean;
+
+/** GitHub: stale or missing blob sha on PUT contents. */
+const gitHubConflict: ConflictTest = (status, body) =>
+  status === 409 || (status === 422 && /\bsha\b/i.test(body));
+
+/** Classify a non-2xx response from a forge API. Consumes the body. */
+async function httpStoreError(
+  res: Response,
+  action: string,
+  isConflict: ConflictTest = gitHubConflict,
+): Promise<StoreError> {
+  const snippet = (await res.text()).slice(0, 300);
+  const wait = retryAfterMs(res);
+  let kind: StoreErrorKind = "permanent";
+  if (isConflict(res.status, snippet)) {
+    // Someone (usually the brain) committed the file between our lookup and
+    // our write.
+    kind = "conflict";
+  } else if (
+    res.status === 429 ||
+    (res.status === 403 && (wait !== undefined || /rate limit/i.test(snippet)))
+  ) {
+    kind = "rate-limited";
+  } else if (res.status >= 500 || res.status === 408) {
+    kind = "transient";
+  }
+  return new StoreError(
+    `${action} failed: ${res.status} ${res.statusText}. ${snippet}`,
+    kind,
+    wait,
+    res.status,
+  );
+}
+
+/**
+ * fetch() a forge API read. A fetch that never got an answer (DNS, refused,
+ * reset) is an outage — a transient StoreError a caller can retry and a
+ * route answers 503 — never mistaken for "the file isn't there".
+ */
+async function forgeFetch(url: string, init: RequestInit, action: string): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    const cause = (err as Error & { cause?: Error }).cause;
+    throw new StoreError(
+      `${action} failed: ${(err as Error).message}${cause ? ` (${cause.message})` : ""}`,
+      "transient",
+    );
+  }
+}
+
+/** Default total attempts for a remote session write (first try included). */
+const WRITE_ATTEMPTS = 4;
+/** First backoff step for write retries; doubles per attempt (with jitter). */
+const WRITE_BACKOFF_BASE_MS = 500;
+/** Longest single wait a write will sit out before giving the error back. */
+const WRITE_MAX_WAIT_MS = 10_000;
+
+/**
+ * Bounded retry for a remote session write. A conflict (the brain committed
+ * this file since we read its version) goes again immediately, after
+ * `onConflict` drops whatever stale version we held; transient and
+ * rate-limited failures back off exponentially, honoring Retry-After. A wait
+ * longer than the request can afford is handed back to the client as a
+ * retryable error instead of holding the request open.
+ */
+async function retryWrite<T>(
+  attempts: number,
+  targetPath: string,
+  write: () => Promise<T>,
+  onConflict: () => void = () => {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
     } catch (err) {
-      const reason =
-        (err as { stderr?: string; message?: string }).stderr ||
-        (err as Error).message;
-      // Non-fatal: the file is on disk; the brain can pick it up on next sync.
+      const failure =
+        err instanceof StoreError
+          ? err
+          : new StoreError(`Write of ${targetPath} failed: ${(err as Error).message}`, "transient");
+      if (failure.kind === "conflict") {
+        onConflict();
+      }
+      if (!failure.retryable || attempt >= attempts) {
+        throw failure;
+      }
+      const backoff = WRITE_BACKOFF_BASE_MS * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      const delay = failure.kind === "conflict" ? 0 : Math.max(backoff, failure.retryAfterMs ?? 0);
+      if (delay > WRITE_MAX_WAIT_MS) {
+        throw failure;
+      }
       console.warn(
-        `[point-one-store] git commit skipped for ${filePath}: ${String(reason).trim()}`,
+        `[point-one-store] ${failure.kind} on attempt ${attempt}/${attempts} for ${targetPath}; retrying in ${Math.round(delay)}ms`,
       );
-      return false;
+      await sleep(delay);
     }
   }
 }
 
+/** Parallel commits lookups when listing the log dir. */
+const LIST_CONCURRENCY = 8;
+
+/** A contents-API read we can revalidate: GitHub's ETag plus the blob it named. */
+interface CachedContents {
+  etag?: string;
+  sha?: string;
+  /** base64 file content, as the contents API returns it. */
+  content?: string;
+  /** When the server last confirmed this copy (200 or 304). */
+  checkedAt: number;
+}
+
 /**
  * GitHub contents-API implementation: reads/writes the same files as
  * LocalGitPointOneStore, but against a remote GitHub repo over HTTPS instead of
@@ -218,9 +938,40 @@ export class GitHubApiPointOneStore implements PointOneStore {
   private readonly repo: string;
   private readonly branch: string;
   private readonly workoutPath: string;
-  private readonly apiBase = "https://api.github.com";
+  private readonly apiBase: string;
+  /** How long a cached program.json is served without asking GitHub at all. */
+  private readonly programTtlMs: number;
+  /** Total PUT attempts per session write (first try included). */
+  private readonly writeAttempts: number;
+  /**
+   * Contents reads by repo path (program.json + log files we've written).
+   * Revalidated with If-None-Match — GitHub doesn't count a 304 against the
+   * rate limit, and several devices polling on focus add up fast on one PAT.
+   */
+  private readonly contents = new Map<string, CachedContents>();
+  /**
+   * Paths a GET last found missing — a read-before-write (the outbox's
+   * duplicate check) already knows a new log is a create, so the PUT needn't
+   * look its sha up again. A file that appeared since is a conflict, which
+   * clears this and re-reads.
+   */
+  private readonly absent = new Set<string>();
+  /**
+   * Last commit per log file, keyed by path and valid while the file's blob
+   * sha is unchanged — so re-listing costs one directory read, not a commits
+   * call per file.
+   */
+  private readonly commitsByPath = new Map<
+    string,
+    { blobSha: string; commit: NonNullable<LoggedSession["commit"]> }
+  >();
+  /** program.json per commit sha, for the generation history — immutable once read. */
+  private readonly programAt = new Map<string, unknown>();
+  /** Last time GitHub answered a read / took a write, for the deep health check. */
+  private lastReadAt: string | null = null;
+  private lastWriteAt: string | null = null;
 
-  constructor() {
+  constructor(workoutPath: string = workoutPathFromEnv()) {
     const token = process.env.GITHUB_TOKEN;
     if (!token) {
       throw new Error(
@@ -230,9 +981,13 @@ export class GitHubApiPointOneStore implements PointOneStore {
     this.token = token;
     this.repo = process.env.GITHUB_REPO ?? "lawrenceluk/point-one";
     this.branch = process.env.GITHUB_BRANCH ?? "main";
-    // Strip any leading/trailing slashes so we control all path joins.
-    this.workoutPath = (process.env.POINT_ONE_WORKOUT_PATH ?? "point-one/workout")
-      .replace(/^\/+|\/+$/g, "");
+    // Overridable for GitHub Enterprise, or a local stand-in when testing.
+    this.apiBase = (process.env.GITHUB_API_URL ?? "https://api.github.com").replace(/\/+$/, "");
+    this.workoutPath = workoutPath;
+    const ttl = Number(process.env.GITHUB_CACHE_TTL_MS ?? 30_000);
+    this.programTtlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : 30_000;
+    const attempts = Number(process.env.GITHUB_WRITE_ATTEMPTS ?? WRITE_ATTEMPTS);
+    this.writeAttempts = Number.isInteger(attempts) && attempts >= 1 ? attempts : WRITE_ATTEMPTS;
   }
 
   /** Headers required on every GitHub API call. */
@@ -245,32 +1000,74 @@ export class GitHubApiPointOneStore implements PointOneStore {
     };
   }
 
-  async readProgram(): Promise<unknown> {
-    const programPath = `${this.workoutPath}/program.json`;
-    const url = `${this.apiBase}/repos/${this.repo}/contents/${programPath}?ref=${encodeURIComponent(
+  /**
+   * GET contents for a repo path, conditionally when we hold a copy. Returns
+   * the (possibly revalidated) cache entry, or undefined on 404. `label` names
+   * the read in error messages.
+   */
+  private async getContents(
+    filePath: string,
+    label: string,
+  ): Promise<CachedContents | undefined> {
+    const url = `${this.apiBase}/repos/${this.repo}/contents/${filePath}?ref=${encodeURIComponent(
       this.branch,
     )}`;
-    const res = await fetch(url, { headers: this.headers() });
+    const cached = this.contents.get(filePath);
+    const headers = this.headers();
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    }
+    const res = await forgeFetch(url, { headers }, `GitHub GET contents (${label}) for ${filePath}`);
 
+    if (res.status === 304 && cached) {
+      cached.checkedAt = Date.now();
+      this.lastReadAt = new Date().toISOString();
+      return cached;
+    }
     if (res.status === 404) {
-      throw new Error(
-        `program.json not found in ${this.repo}@${this.branch} (at ${programPath}). The brain (Point One) has not written a program yet, or GITHUB_REPO/GITHUB_BRANCH/POINT_ONE_WORKOUT_PATH is misconfigured.`,
-      );
+      this.contents.delete(filePath);
+      this.absent.add(filePath);
+      this.lastReadAt = new Date().toISOString();
+      return undefined;
     }
     if (!res.ok) {
-      const snippet = (await res.text()).slice(0, 300);
+      throw await httpStoreError(res, `GitHub GET contents (${label}) for ${filePath}`);
+    }
+    this.lastReadAt = new Date().toISOString();
+
+    const body = (await res.json()) as { content?: string; sha?: string };
+    const entry: CachedContents = {
+      etag: res.headers.get("etag") ?? undefined,
+      sha: body.sha,
+      content: body.content,
+      checkedAt: Date.now(),
+    };
+    this.contents.set(filePath, entry);
+    this.absent.delete(filePath);
+    return entry;
+  }
+
+  async readProgram(): Promise<unknown> {
+    const programPath = `${this.workoutPath}/program.json`;
+    // Inside the TTL the cached blob is served as-is; past it, one conditional
+    // GET revalidates (a 304 is free against the rate limit).
+    const cached = this.contents.get(programPath);
+    const entry =
+      cached && Date.now() - cached.checkedAt < this.programTtlMs
+        ? cached
+        : await this.getContents(programPath, "program.json");
+
+    if (!entry) {
       throw new Error(
-        `GitHub GET contents for program.json failed: ${res.status} ${res.statusText}. ${snippet}`,
+        `program.json not found in ${this.repo}@${this.branch} (at ${programPath}). The brain (Point One) has not written a program yet, or GITHUB_REPO/GITHUB_BRANCH/POINT_ONE_WORKOUT_PATH is misconfigured.`,
       );
     }
-
-    const body = (await res.json()) as { content?: string; encoding?: string };
-    if (typeof body.content !== "string") {
+    if (typeof entry.content !== "string") {
       throw new Error(
         `GitHub GET contents for program.json returned no content (is ${programPath} a directory?).`,
       );
     }
-    const decoded = Buffer.from(body.content, "base64").toString("utf8");
+    const decoded = Buffer.from(entry.content, "base64").toString("utf8");
     try {
       return JSON.parse(decoded);
     } catch (err) {
@@ -282,71 +1079,769 @@ export class GitHubApiPointOneStore implements PointOneStore {
 
   async writeSession(
     session: unknown,
-  ): Promise<{ path: string; committed: boolean }> {
-    const s = session as SessionLike;
-    const date = sessionDate(s);
-    const fileName = sessionFileName(s);
+    { fileName = sessionFileName(session as SessionLike), device }: WriteOptions = {},
+  ): Promise<WriteResult> {
     // Append-only: always under `<workoutPath>/log/`, never program.json.
     const targetPath = logRelPath(this.workoutPath, fileName);
     const url = `${this.apiBase}/repos/${this.repo}/contents/${targetPath}`;
 
-    // Create-or-update: the contents API needs the existing blob `sha` to update
-    // a file in place; omitting it creates a new file. Look it up first.
-    const sha = await this.fileSha(targetPath);
-
     const content = Buffer.from(JSON.stringify(session, null, 2)).toString("base64");
+
+    const res = await this.putWithRetry(
+      url,
+      targetPath,
+      content,
+      sessionCommitMessage(session, device),
+    );
+
+    const written = (await res.json()) as {
+      content?: { sha?: string };
+      commit?: { sha?: string; html_url?: string };
+    };
+    this.contents.set(targetPath, { sha: written.content?.sha, checkedAt: Date.now() });
+    this.absent.delete(targetPath);
+    this.lastWriteAt = new Date().toISOString();
+    // Our commit moved the branch: don't serve program.json from inside the
+    // TTL window on the strength of a read that predates it.
+    this.invalidateProgram();
+
+    // PUT contents commits in a single call — no separate git step.
+    return {
+      path: targetPath,
+      committed: true,
+      ...(written.commit?.sha
+        ? {
+            commit: {
+              sha: written.commit.sha,
+              blobSha: written.content?.sha,
+              url: written.commit.html_url,
+            },
+          }
+        : {}),
+    };
+  }
+
+  async readSession(fileName: string): Promise<unknown | undefined> {
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    const entry = await this.getContents(targetPath, "session read-back");
+    if (!entry) {
+      return undefined;
+    }
+    if (typeof entry.content !== "string") {
+      throw new Error(`GitHub GET contents for ${targetPath} returned no content.`);
+    }
+    return parseSessionLog(
+      Buffer.from(entry.content, "base64").toString("utf8"),
+      `${targetPath} in ${this.repo}@${this.branch}`,
+    );
+  }
+
+  /** The repo-relative path, and the last commit on the branch that touched it. */
+  async storedSession(fileName: string): Promise<StoredSession> {
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    const blobSha = await this.fileSha(targetPath);
+    const commit = blobSha ? await this.lastCommit(targetPath, blobSha) : null;
+    return { path: targetPath, ...(commit ? { commit: { sha: commit.sha, blobSha } } : {}) };
+  }
+
+  /**
+   * List `<workoutPath>/log/` with GET contents on the directory (GitHub caps a
+   * directory listing at 1,000 entries), then look up each file's last commit
+   * — only for files that are new or changed since the last listing.
+   */
+  async listSessions(): Promise<LoggedSession[]> {
+    const logDir = `${this.workoutPath}/log`;
+    const res = await forgeFetch(
+      `${this.apiBase}/repos/${this.repo}/contents/${logDir}?ref=${encodeURIComponent(this.branch)}`,
+      { headers: this.headers() },
+      `GitHub GET contents (log dir) for ${logDir}`,
+    );
+    if (res.status === 404) {
+      return [];
+    }
+    if (!res.ok) {
+      throw await httpStoreError(res, `GitHub GET contents (log dir) for ${logDir}`);
+    }
+    this.lastReadAt = new Date().toISOString();
+    const entries = ((await res.json()) as { name: string; path: string; sha: string; type: string }[])
+      .filter((e) => e.type === "file" && e.name.endsWith(".json"));
+
+    const sessions: LoggedSession[] = [];
+    // A few at a time: a first listing of a long log is one commits call per file.
+    for (let i = 0; i < entries.length; i += LIST_CONCURRENCY) {
+      const batch = entries.slice(i, i + LIST_CONCURRENCY);
+      sessions.push(
+        ...(await Promise.all(
+          batch.map(async (e) =>
+            loggedSession(this.workoutPath, e.name, await this.lastCommit(e.path, e.sha)),
+          ),
+        )),
+      );
+    }
+    return sessions.sort(byNewest);
+  }
+
+  /** The last commit on the branch that touched `filePath` (cached per blob sha). */
+  private async lastCommit(
+    filePath: string,
+    blobSha: string,
+  ): Promise<LoggedSession["commit"]> {
+    const cached = this.commitsByPath.get(filePath);
+    if (cached?.blobSha === blobSha) {
+      return cached.commit;
+    }
+    const res = await forgeFetch(
+      `${this.apiBase}/repos/${this.repo}/commits?path=${encodeURIComponent(filePath)}&sha=${encodeURIComponent(this.branch)}&per_page=1`,
+      { headers: this.headers() },
+      `GitHub GET commits for ${filePath}`,
+    );
+    if (!res.ok) {
+      throw await httpStoreError(res, `GitHub GET commits for ${filePath}`);
+    }
+    const [latest] = (await res.json()) as {
+      sha: string;
+      commit: { committer?: { date?: string } };
+    }[];
+    if (!latest) {
+      return null;
+    }
+    const commit = { sha: latest.sha, committedAt: latest.commit.committer?.date ?? "" };
+    this.commitsByPath.set(filePath, { blobSha, commit });
+    return commit;
+  }
+
+  /**
+   * The commits API filtered to program.json, each commit's copy read with
+   * GET contents at that sha — once: after that it comes from `programAt`, so
+   * a repeat listing costs one call.
+   */
+  async programHistory(limit: number): Promise<ProgramVersion[]> {
+    const programPath = `${this.workoutPath}/program.json`;
+    const res = await forgeFetch(
+      `${this.apiBase}/repos/${this.repo}/commits?path=${encodeURIComponent(programPath)}&sha=${encodeURIComponent(this.branch)}&per_page=${Math.min(limit, 100)}`,
+      { headers: this.headers() },
+      `GitHub GET commits for ${programPath}`,
+    );
+    if (!res.ok) {
+      throw await httpStoreError(res, `GitHub GET commits for ${programPath}`);
+    }
+    this.lastReadAt = new Date().toISOString();
+    const commits = (await res.json()) as {
+      sha: string;
+      commit: { committer?: { date?: string } };
+    }[];
+    const versions: ProgramVersion[] = [];
+    for (const { sha, commit } of commits) {
+      if (!this.programAt.has(sha)) {
+        const at = await forgeFetch(
+          `${this.apiBase}/repos/${this.repo}/contents/${programPath}?ref=${encodeURIComponent(sha)}`,
+          { headers: this.headers() },
+          `GitHub GET contents (program.json@${sha.slice(0, 7)}) for ${programPath}`,
+        );
+        // 404: the commit deleted the file.
+        if (!at.ok && at.status !== 404) {
+          throw await httpStoreError(at, `GitHub GET contents (program.json@${sha.slice(0, 7)}) for ${programPath}`);
+        }
+        const body = at.ok ? ((await at.json()) as { content?: string }) : {};
+        this.programAt.set(
+          sha,
+          parseProgramVersion(
+            typeof body.content === "string" ? Buffer.from(body.content, "base64").toString("utf8") : undefined,
+          ),
+        );
+      }
+      const program = this.programAt.get(sha);
+      if (program !== undefined) {
+        versions.push({ commit: { sha, committedAt: commit.committer?.date ?? "" }, program });
+      }
+    }
+    return versions;
+  }
+
+  /** PUT the file with bounded retries; a conflict drops the cached sha (or known absence) so the next attempt refetches it. */
+  private putWithRetry(
+    url: string,
+    targetPath: string,
+    content: string,
+    message: string,
+  ): Promise<Response> {
+    return retryWrite(
+      this.writeAttempts,
+      targetPath,
+      async () => {
+        const res = await this.putContents(url, targetPath, content, message);
+        if (res.ok) return res;
+        throw await httpStoreError(res, `GitHub PUT contents for ${targetPath}`);
+      },
+      () => {
+        this.contents.delete(targetPath);
+        this.absent.delete(targetPath);
+      },
+    );
+  }
+
+  /**
+   * One create-or-update PUT. The contents API needs the existing blob `sha`
+   * to update a file in place; omitting it creates a new file. A same-day
+   * re-delivery reuses the sha our last PUT returned instead of looking it up.
+   */
+  private async putContents(
+    url: string,
+    targetPath: string,
+    content: string,
+    message: string,
+  ): Promise<Response> {
+    const sha = await this.fileSha(targetPath);
     const putBody: Record<string, unknown> = {
-      message: `workout: log ${String(s.name)} ${date}`,
+      message,
       content,
       branch: this.branch,
     };
     if (sha) {
       putBody.sha = sha;
     }
-
-    const res = await fetch(url, {
+    return fetch(url, {
       method: "PUT",
       headers: { ...this.headers(), "Content-Type": "application/json" },
       body: JSON.stringify(putBody),
     });
+  }
+
+  /**
+   * Ask GitHub about the token, repo and branch: is the token valid (and its
+   * scopes, for a classic token), can it write contents, does the branch
+   * exist, and how much rate limit is left. Two calls; neither is cached.
+   */
+  async checkHealth(): Promise<StoreHealth> {
+    const checks: HealthCheck[] = [];
+    const health: StoreHealth = { checks, lastReadAt: this.lastReadAt, lastWriteAt: this.lastWriteAt };
+    let res: Response;
+    try {
+      res = await fetch(`${this.apiBase}/repos/${this.repo}`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+      });
+    } catch (err) {
+      checks.push({ name: "github", ok: false, detail: `GitHub is unreachable: ${(err as Error).message}` });
+      return health;
+    }
+    const limit = Number(res.headers.get("x-ratelimit-limit"));
+    const remaining = Number(res.headers.get("x-ratelimit-remaining"));
+    const reset = Number(res.headers.get("x-ratelimit-reset"));
+    if (res.headers.has("x-ratelimit-remaining") && Number.isFinite(remaining)) {
+      health.rateLimit = { limit, remaining, resetAt: new Date(reset * 1000).toISOString() };
+      checks.push({
+        name: "rate-limit",
+        ok: remaining > 0,
+        detail:
+          remaining > 0
+            ? `${remaining}/${limit} requests left`
+            : `Rate limit exhausted until ${health.rateLimit.resetAt}.`,
+      });
+    }
+    if (res.status === 403 && remaining === 0) {
+      // Rate-limited: the check above already says so; nothing else can be learned.
+      return health;
+    }
+    if (res.status === 401) {
+      checks.push({ name: "token", ok: false, detail: "GITHUB_TOKEN was rejected — expired or revoked." });
+      return health;
+    }
+    if (res.status === 404 || res.status === 403) {
+      checks.push({
+        name: "repo",
+        ok: false,
+        detail: `${this.repo} is not visible to GITHUB_TOKEN (${res.status}) — wrong GITHUB_REPO, or the token lacks access to it.`,
+      });
+      return health;
+    }
     if (!res.ok) {
-      const snippet = (await res.text()).slice(0, 300);
-      throw new Error(
-        `GitHub PUT contents for ${targetPath} failed: ${res.status} ${res.statusText}. ${snippet}`,
+      checks.push({ name: "github", ok: false, detail: `GitHub answered ${res.status} ${res.statusText}.` });
+      return health;
+    }
+    // Classic tokens list their scopes; fine-grained ones don't (permissions.push says enough).
+    const scopes = res.headers.get("x-oauth-scopes");
+    checks.push({
+      name: "token",
+      ok: true,
+      detail: scopes === null ? "valid (fine-grained)" : `valid (scopes: ${scopes || "none"})`,
+    });
+    // A body that isn't JSON (a proxy's error page) just can't vouch for write access.
+    const repo = (await res.json().catch(() => ({}))) as { permissions?: { push?: boolean } };
+    const canWrite = repo.permissions?.push === true;
+    checks.push({
+      name: "write",
+      ok: canWrite,
+      detail: canWrite
+        ? "contents: write"
+        : `GITHUB_TOKEN can read ${this.repo} but not write to it — sessions can't be committed (needs Contents: Read and write).`,
+    });
+
+    try {
+      const branchRes = await fetch(
+        `${this.apiBase}/repos/${this.repo}/branches/${encodeURIComponent(this.branch)}`,
+        { headers: this.headers(), signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) },
       );
+      checks.push({
+        name: "branch",
+        ok: branchRes.ok,
+        detail: branchRes.ok
+          ? this.branch
+          : `Branch ${this.branch} not found in ${this.repo} (${branchRes.status}) — check GITHUB_BRANCH.`,
+      });
+    } catch (err) {
+      checks.push({ name: "branch", ok: false, detail: `Could not look up ${this.branch}: ${(err as Error).message}` });
     }
+    return health;
+  }
 
-    // PUT contents commits in a single call — no separate git step.
-    return { path: targetPath, committed: true };
+  /** Force the next readProgram to revalidate with GitHub (still conditional). */
+  invalidateProgram(): void {
+    const cached = this.contents.get(`${this.workoutPath}/program.json`);
+    if (cached) {
+      cached.checkedAt = 0;
+    }
   }
 
   /** Return the blob sha of an existing file, or undefined if it doesn't exist
-   *  (404). Any other non-2xx is an error worth surfacing. */
+   *  (404, or known missing). Any other non-2xx is an error worth surfacing. */
   private async fileSha(filePath: string): Promise<string | undefined> {
-    const url = `${this.apiBase}/repos/${this.repo}/contents/${filePath}?ref=${encodeURIComponent(
-      this.branch,
-    )}`;
-    const res = await fetch(url, { headers: this.headers() });
+    const cached = this.contents.get(filePath);
+    if (cached?.sha) {
+      return cached.sha;
+    }
+    if (this.absent.has(filePath)) {
+      return undefined;
+    }
+    const entry = await this.getContents(filePath, "sha lookup");
+    return entry?.sha;
+  }
+}
+
+/** Read a required env var for a store, failing loudly at startup if unset. */
+function requireEnv(name: string, store: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required for the ${store} store but is not set.`);
+  }
+  return value;
+}
+
+/** A file read through a repository-files API: its text + the version an update must cite. */
+interface RepoFile {
+  text: string;
+  version: string;
+}
+
+/**
+ * Shared shape of the self-hosted forge stores (Gitea, GitLab): both expose a
+ * repository-files API that reads a file and creates/updates one in a single
+ * commit, differing only in URLs, auth and how an update proves which version
+ * it replaces. Same append-only contract as GitHubApiPointOneStore: only ever
+ * writes under `<workoutPath>/log/`, never touches program.json.
+ */
+abstract class RepositoryFilesPointOneStore implements PointOneStore {
+  constructor(protected readonly workoutPath: string) {}
+
+  /** "Gitea" / "GitLab" — for error messages. */
+  protected abstract readonly label: string;
+  /** "owner/repo" or project path — for error messages. */
+  protected abstract readonly repo: string;
+  protected abstract readonly branch: string;
+
+  /** GET a file, or undefined if it doesn't exist. Throws StoreError otherwise. */
+  protected abstract getFile(filePath: string): Promise<RepoFile | undefined>;
+  /**
+   * Create (no `version`) or update a file in one commit, returning that
+   * commit when the forge says. Throws StoreError.
+   */
+  protected abstract putFile(
+    filePath: string,
+    text: string,
+    message: string,
+    version?: string,
+  ): Promise<CommitReceipt | undefined>;
+  /** The last commit on the branch that touched `filePath`, best effort. */
+  protected abstract lastCommit(filePath: string): Promise<CommitReceipt | undefined>;
+
+  async readProgram(): Promise<unknown> {
+    const programPath = `${this.workoutPath}/program.json`;
+    const file = await this.getFile(programPath);
+    if (!file) {
+      throw new Error(
+        `program.json not found in ${this.repo}@${this.branch} (at ${programPath}) on ${this.label}. The brain (Point One) has not written a program yet, or the repo/branch/POINT_ONE_WORKOUT_PATH is misconfigured.`,
+      );
+    }
+    try {
+      return JSON.parse(file.text);
+    } catch (err) {
+      throw new Error(
+        `Program file ${programPath} in ${this.repo}@${this.branch} is not valid JSON: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  async writeSession(
+    session: unknown,
+    { fileName = sessionFileName(session as SessionLike), device }: WriteOptions = {},
+  ): Promise<WriteResult> {
+    // Append-only: always under `<workoutPath>/log/`, never program.json.
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    const text = JSON.stringify(session, null, 2);
+    const message = sessionCommitMessage(session, device);
+
+    // Each attempt re-reads the file, so a conflict retry always cites the
+    // version that's actually there now.
+    const commit = await retryWrite(WRITE_ATTEMPTS, targetPath, async () => {
+      const existing = await this.getFile(targetPath);
+      return this.putFile(targetPath, text, message, existing?.version);
+    });
+    return { path: targetPath, committed: true, ...(commit ? { commit } : {}) };
+  }
+
+  async readSession(fileName: string): Promise<unknown | undefined> {
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    const file = await this.getFile(targetPath);
+    return file && parseSessionLog(file.text, `${targetPath} in ${this.repo}@${this.branch}`);
+  }
+
+  async storedSession(fileName: string): Promise<StoredSession> {
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    const commit = await this.lastCommit(targetPath);
+    return { path: targetPath, ...(commit ? { commit } : {}) };
+  }
+}
+
+/**
+ * Gitea contents-API implementation (POINT_ONE_STORE=gitea), for a
+ * self-hosted forge. Create is POST contents, update is PUT contents with the
+ * existing blob sha — both commit in one call. Auth is `token <GITEA_TOKEN>`.
+ */
+export class GiteaPointOneStore extends RepositoryFilesPointOneStore {
+  protected readonly label = "Gitea";
+  protected readonly repo: string;
+  protected readonly branch: string;
+  private readonly apiBase: string;
+  private readonly token: string;
+
+  constructor(workoutPath: string = workoutPathFromEnv()) {
+    super(workoutPath);
+    this.apiBase = `${requireEnv("GITEA_URL", "Gitea").replace(/\/+$/, "")}/api/v1`;
+    this.token = requireEnv("GITEA_TOKEN", "Gitea");
+    this.repo = requireEnv("GITEA_REPO", "Gitea");
+    this.branch = process.env.GITEA_BRANCH ?? "main";
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Authorization: `token ${this.token}`,
+      Accept: "application/json",
+      "User-Agent": "point-one-fitness",
+    };
+  }
+
+  private url(filePath: string): string {
+    return `${this.apiBase}/repos/${this.repo}/contents/${filePath
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}`;
+  }
+
+  protected async getFile(filePath: string): Promise<RepoFile | undefined> {
+    const res = await fetch(`${this.url(filePath)}?ref=${encodeURIComponent(this.branch)}`, {
+      headers: this.headers(),
+    });
     if (res.status === 404) {
       return undefined;
     }
     if (!res.ok) {
-      const snippet = (await res.text()).slice(0, 300);
-      throw new Error(
-        `GitHub GET contents (sha lookup) for ${filePath} failed: ${res.status} ${res.statusText}. ${snippet}`,
+      throw await httpStoreError(res, `Gitea GET contents for ${filePath}`);
+    }
+    const body = (await res.json()) as { content?: string; sha?: string };
+    if (typeof body.content !== "string" || !body.sha) {
+      throw new StoreError(`Gitea GET contents for ${filePath} returned no content (is it a directory?).`, "permanent");
+    }
+    return { text: Buffer.from(body.content, "base64").toString("utf8"), version: body.sha };
+  }
+
+  protected async putFile(
+    filePath: string,
+    text: string,
+    message: string,
+    version?: string,
+  ): Promise<CommitReceipt | undefined> {
+    const res = await fetch(this.url(filePath), {
+      method: version ? "PUT" : "POST",
+      headers: { ...this.headers(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        message,
+        content: Buffer.from(text).toString("base64"),
+        branch: this.branch,
+        ...(version ? { sha: version } : {}),
+      }),
+    });
+    if (!res.ok) {
+      // Create over an existing file, or update citing a stale sha.
+      throw await httpStoreError(
+        res,
+        `Gitea ${version ? "PUT" : "POST"} contents for ${filePath}`,
+        (status, body) =>
+          status === 409 || (status === 422 && /sha|already exists/i.test(body)),
       );
     }
-    const body = (await res.json()) as { sha?: string };
-    return body.sha;
+    const written = (await res.json()) as {
+      content?: { sha?: string };
+      commit?: { sha?: string; html_url?: string };
+    };
+    return written.commit?.sha
+      ? { sha: written.commit.sha, blobSha: written.content?.sha, url: written.commit.html_url }
+      : undefined;
+  }
+
+  /** GET commits filtered to the file, newest first. Best effort, like a receipt read-back. */
+  protected async lastCommit(filePath: string): Promise<CommitReceipt | undefined> {
+    try {
+      const res = await fetch(
+        `${this.apiBase}/repos/${this.repo}/commits?sha=${encodeURIComponent(this.branch)}&path=${encodeURIComponent(filePath)}&limit=1`,
+        { headers: this.headers() },
+      );
+      if (!res.ok) {
+        return undefined;
+      }
+      const [latest] = (await res.json()) as { sha?: string; html_url?: string }[];
+      return latest?.sha ? { sha: latest.sha, url: latest.html_url } : undefined;
+    } catch {
+      return undefined;
+    }
   }
 }
 
 /**
- * Default store used by the routes. Selected by POINT_ONE_STORE:
+ * GitLab repository-files implementation (POINT_ONE_STORE=gitlab), for
+ * gitlab.com or a self-hosted instance. Create is POST, update is PUT with the
+ * `last_commit_id` we read, so GitLab refuses an update that would clobber a
+ * commit made since. Auth is the PRIVATE-TOKEN header.
+ */
+export class GitLabPointOneStore extends RepositoryFilesPointOneStore {
+  protected readonly label = "GitLab";
+  protected readonly repo: string;
+  protected readonly branch: string;
+  /** The instance's web root — commit links are `<webBase>/<project>/-/commit/<sha>`. */
+  private readonly webBase: string;
+  private readonly apiBase: string;
+  private readonly token: string;
+
+  constructor(workoutPath: string = workoutPathFromEnv()) {
+    super(workoutPath);
+    this.webBase = (process.env.GITLAB_URL ?? "https://gitlab.com").replace(/\/+$/, "");
+    this.apiBase = `${this.webBase}/api/v4`;
+    this.token = requireEnv("GITLAB_TOKEN", "GitLab");
+    this.repo = requireEnv("GITLAB_PROJECT", "GitLab");
+    this.branch = process.env.GITLAB_BRANCH ?? "main";
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "PRIVATE-TOKEN": this.token,
+      Accept: "application/json",
+      "User-Agent": "point-one-fitness",
+    };
+  }
+
+  /** Project and file path are each one URL-encoded segment (slashes → %2F). */
+  private url(filePath: string): string {
+    return `${this.apiBase}/projects/${encodeURIComponent(this.repo)}/repository/files/${encodeURIComponent(filePath)}`;
+  }
+
+  protected async getFile(filePath: string): Promise<RepoFile | undefined> {
+    const res = await fetch(`${this.url(filePath)}?ref=${encodeURIComponent(this.branch)}`, {
+      headers: this.headers(),
+    });
+    if (res.status === 404) {
+      return undefined;
+    }
+    if (!res.ok) {
+      throw await httpStoreError(res, `GitLab GET file ${filePath}`);
+    }
+    const body = (await res.json()) as { content?: string; last_commit_id?: string };
+    if (typeof body.content !== "string" || !body.last_commit_id) {
+      throw new StoreError(`GitLab GET file ${filePath} returned no content.`, "permanent");
+    }
+    return {
+      text: Buffer.from(body.content, "base64").toString("utf8"),
+      version: body.last_commit_id,
+    };
+  }
+
+  protected async putFile(
+    filePath: string,
+    text: string,
+    message: string,
+    version?: string,
+  ): Promise<CommitReceipt | undefined> {
+    const res = await fetch(this.url(filePath), {
+      method: version ? "PUT" : "POST",
+      headers: { ...this.headers(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        branch: this.branch,
+        commit_message: message,
+        encoding: "base64",
+        content: Buffer.from(text).toString("base64"),
+        ...(version ? { last_commit_id: version } : {}),
+      }),
+    });
+    if (!res.ok) {
+      // GitLab answers both races with a 400 and a sentence.
+      throw await httpStoreError(
+        res,
+        `GitLab ${version ? "PUT" : "POST"} file ${filePath}`,
+        (status, body) =>
+          status === 409 || (status === 400 && /already exists|has changed since/i.test(body)),
+      );
+    }
+    return this.lastCommit(filePath);
+  }
+
+  /**
+   * The commit and blob behind `filePath` now, from a HEAD on the file (its
+   * X-Gitlab-* headers) — the write response only echoes the path. Best
+   * effort: the commit has happened whether or not this answers.
+   */
+  protected async lastCommit(filePath: string): Promise<CommitReceipt | undefined> {
+    try {
+      const res = await fetch(`${this.url(filePath)}?ref=${encodeURIComponent(this.branch)}`, {
+        method: "HEAD",
+        headers: this.headers(),
+      });
+      const sha = res.headers.get("x-gitlab-last-commit-id");
+      if (!res.ok || !sha) {
+        return undefined;
+      }
+      return {
+        sha,
+        blobSha: res.headers.get("x-gitlab-blob-id") ?? undefined,
+        // A numeric project id has no web path to link to.
+        url: /^\d+$/.test(this.repo) ? undefined : `${this.webBase}/${this.repo}/-/commit/${sha}`,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * In-memory implementation (POINT_ONE_STORE=memory): a seeded program and a
+ * map of written logs, gone on restart. For tests and demos on machines with
+ * no Point One checkout. Keys are the same repo-relative paths the git stores
+ * would write (`<workoutPath>/log/<date>-<slug>.json`).
+ */
+export class MemoryPointOneStore implements PointOneStore {
+  private program: unknown;
+  /** Every program it has held, newest first — its stand-in for git history. */
+  private readonly versions: unknown[] = [];
+  private readonly workoutPath: string;
+  /** Written session logs by repo-relative path. */
+  readonly sessions = new Map<string, unknown>();
+
+  constructor(seed: unknown, workoutPath: string = workoutPathFromEnv()) {
+    this.program = structuredClone(seed);
+    if (seed !== undefined && seed !== null) {
+      this.versions.unshift(structuredClone(seed));
+    }
+    this.workoutPath = workoutPath;
+  }
+
+  async readProgram(): Promise<unknown> {
+    if (this.program === undefined || this.program === null) {
+      throw new Error("The in-memory store has no program seeded.");
+    }
+    // Hand out copies so callers can't mutate the "repo" behind our back.
+    return structuredClone(this.program);
+  }
+
+  async writeSession(
+    session: unknown,
+    { fileName = sessionFileName(session as SessionLike) }: WriteOptions = {},
+  ): Promise<WriteResult> {
+    const targetPath = logRelPath(this.workoutPath, fileName);
+    this.sessions.set(targetPath, structuredClone(session));
+    return { path: targetPath, committed: false };
+  }
+
+  async readSession(fileName: string): Promise<unknown | undefined> {
+    const session = this.sessions.get(logRelPath(this.workoutPath, fileName));
+    return session === undefined ? undefined : structuredClone(session);
+  }
+
+  async storedSession(fileName: string): Promise<StoredSession> {
+    return { path: logRelPath(this.workoutPath, fileName) };
+  }
+
+  async listSessions(): Promise<LoggedSession[]> {
+    return Array.from(this.sessions.keys())
+      .map((key) => loggedSession(this.workoutPath, path.posix.basename(key), null))
+      .sort(byNewest);
+  }
+
+  async programHistory(limit: number): Promise<ProgramVersion[]> {
+    return this.versions
+      .slice(0, limit)
+      .map((program) => ({ commit: null, program: structuredClone(program) }));
+  }
+
+  /** Replace the program — lets a test or demo play the brain. */
+  setProgram(program: unknown): void {
+    this.program = structuredClone(program);
+    this.versions.unshift(structuredClone(program));
+  }
+}
+
+/** The memory store's seed: the envelope at POINT_ONE_SEED, else the bundled demo. */
+function loadSeedProgram(): unknown {
+  const seedPath = process.env.POINT_ONE_SEED;
+  if (!seedPath) {
+    return demoProgram;
+  }
+  try {
+    return JSON.parse(readFileSync(seedPath, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `POINT_ONE_SEED (${seedPath}) could not be read as a program envelope: ${(err as Error).message}`,
+    );
+  }
+}
+
+/** The backends POINT_ONE_STORE can name; anything else is local git. */
+const STORE_BACKENDS = ["github", "gitea", "gitlab", "fs", "memory"];
+
+/** Which backend POINT_ONE_STORE picked — what request logs and errors name. */
+export const storeBackend: string = STORE_BACKENDS.includes(process.env.POINT_ONE_STORE ?? "")
+  ? (process.env.POINT_ONE_STORE as string)
+  : "git";
+
+/**
+ * A store for one workout dir (one athlete's — see lib/athletes). Selected by
+ * POINT_ONE_STORE:
  *   - "github" → GitHubApiPointOneStore (remote deploy; needs GITHUB_TOKEN).
+ *   - "gitea"  → GiteaPointOneStore (self-hosted; needs GITEA_URL/TOKEN/REPO).
+ *   - "gitlab" → GitLabPointOneStore (needs GITLAB_TOKEN/PROJECT).
+ *   - "fs"     → FileSystemPointOneStore (same layout under POINT_ONE_REPO, no git).
+ *   - "memory" → MemoryPointOneStore (seeded from POINT_ONE_SEED or the demo program).
  *   - anything else / unset → LocalGitPointOneStore (local dev — unchanged).
  */
-export const pointOneStore: PointOneStore =
-  process.env.POINT_ONE_STORE === "github"
-    ? new GitHubApiPointOneStore()
-    : new LocalGitPointOneStore();
+export function createStore(workoutPath: string = workoutPathFromEnv()): PointOneStore {
+  switch (process.env.POINT_ONE_STORE) {
+    case "github":
+      return new GitHubApiPointOneStore(workoutPath);
+    case "gitea":
+      return new GiteaPointOneStore(workoutPath);
+    case "gitlab":
+      return new GitLabPointOneStore(workoutPath);
+    case "fs":
+      return new FileSystemPointOneStore(undefined, workoutPath);
+    case "memory":
+      return new MemoryPointOneStore(loadSeedProgram(), workoutPath);
+    default:
+      return new LocalGitPointOneStore(undefined, workoutPath);
+  }
+}
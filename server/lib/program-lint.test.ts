@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { demoProgram } from "../fixtures/demo-program";
+import { lintProgram } from "./program-lint";
+
+const generation = (demoProgram as { generation: number }).generation;
+
+test("the demo program lints clean", () => {
+  const report = lintProgram(demoProgram);
+  assert.equal(report.ok, true);
+  assert.deepEqual(report.errors, []);
+});
+
+test("a generation below the last one served warns but still serves", () => {
+  const report = lintProgram(demoProgram, { previousGeneration: generation + 1 });
+  assert.equal(report.ok, true);
+  assert.equal(report.program?.generation, generation);
+  assert.match(report.warnings.find((w) => w.path === "generation")?.message ?? "", /went backwards/);
+});
+
+test("an unknown schema is an error", () => {
+  const report = lintProgram({ ...(demoProgram as object), schema: 99 });
+  assert.equal(report.ok, false);
+  assert.equal(report.errors[0].path, "schema");
+});
@@ -0,0 +1,185 @@
+import {
+  programEnvelopeSchema,
+  contractIssues,
+  type ContractIssue,
+  type ProgramEnvelope,
+} from "@shared/seam";
+import { SchemaMigrationError, upgradeEnvelope } from "@shared/seam-migrations";
+
+/**
+ * Program linter — checks a program envelope against the seam contract rules
+ * in POINT-ONE.md before a phone ever caches it. Used by GET /api/program and
+ * by the standalone CLI (server/cli/validate-program.ts), so the brain's
+ * output is judged the same way in both places.
+ *
+ * An envelope in an older schema is first up-converted to the current one
+ * (shared/seam-migrations), so a brain can lag the contract by a version.
+ *
+ * Errors make the program unusable (wrong shape, unknown schema, colliding
+ * ids). Warnings are contract drift the client can live with (ids or basedOn
+ * entries that don't follow the naming rules, a generation that went
+ * backwards) — served alongside the program so the brain's mistakes are
+ * visible. A lower generation is usually a deliberate rollback on the brain's
+ * side, so it warns rather than locking every phone out of the program.
+ */
+
+/** A finding at a dotted path into the envelope (`queue.2.exercises.0.id`). */
+export type LintFinding = ContractIssue;
+
+export interface ProgramReport {
+  ok: boolean;
+  errors: LintFinding[];
+  warnings: LintFinding[];
+  /** The parsed envelope, when it had the right shape (even if `ok` is false). */
+  program?: ProgramEnvelope;
+  /**
+   * The envelope as up-converted, every key the brain wrote intact — what
+   * GET /api/program serves (`program` is zod's copy, which drops unknown keys).
+   */
+  envelope?: unknown;
+}
+
+export interface LintOptions {
+  /** The last generation known to be good; a lower one is a regression (a warning). */
+  previousGeneration?: number;
+}
+
+/** `s-<YYYY-MM-DD>-<slug>` — the slug rule is lowercase alphanumerics + dashes. */
+const SESSION_ID = /^s-\d{4}-\d{2}-\d{2}-[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** `<YYYY-MM-DD>-<slug>.json` — the log filename rule (D8). */
+const LOG_FILE_NAME = /^\d{4}-\d{2}-\d{2}-[a-z0-9]+(?:-[a-z0-9]+)*\.json$/;
+
+/** Escape a string for literal use inside a RegExp. */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function lintProgram(raw: unknown, opts: LintOptions = {}): ProgramReport {
+  let envelope = raw;
+  // A schema number, or schema 1's bare Week[] array, can be converted.
+  if (Array.isArray(raw) || typeof (raw as { schema?: unknown } | null)?.schema === "number") {
+    try {
+      envelope = upgradeEnvelope(raw);
+    } catch (err) {
+      if (!(err instanceof SchemaMigrationError)) throw err;
+      return { ok: false, errors: [{ path: "schema", message: err.message }], warnings: [] };
+    }
+  }
+  const parsed = programEnvelopeSchema.safeParse(envelope);
+  if (!parsed.success) {
+    return { ok: false, errors: contractIssues(parsed.error), warnings: [] };
+  }
+  const program = parsed.data;
+  const errors: LintFinding[] = [];
+  const warnings: LintFinding[] = [];
+
+  if (
+    opts.previousGeneration !== undefined &&
+    program.generation < opts.previousGeneration
+  ) {
+    warnings.push({
+      path: "generation",
+      message: `Generation went backwards: ${program.generation} < ${opts.previousGeneration}. Generations are monotonic — a rollback should be re-issued under a new generation.`,
+    });
+  }
+
+  // Session ids are absolute: one id, one prescription, forever. Within the
+  // queue and within history they must be unique; an id in both means the
+  // brain served an already-ingested session as still on tap.
+  const sessionGroups = [
+    { key: "queue", sessions: program.queue },
+    { key: "history", sessions: program.history },
+  ] as const;
+  const exerciseIds = new Map<string, string>();
+  for (const { key, sessions } of sessionGroups) {
+    const seen = new Map<string, number>();
+    sessions.forEach((session, i) => {
+      const at = `${key}.${i}`;
+      if (!SESSION_ID.test(session.id)) {
+        warnings.push({
+          path: `${at}.id`,
+          message: `Session id "${session.id}" does not follow s-<YYYY-MM-DD>-<slug>.`,
+        });
+      }
+      const dup = seen.get(session.id);
+      if (dup !== undefined) {
+        errors.push({
+          path: `${at}.id`,
+          message: `Duplicate session id "${session.id}" (also at ${key}.${dup}).`,
+        });
+      } else {
+        seen.set(session.id, i);
+      }
+
+      const exerciseId = new RegExp(`^${escapeRegExp(session.id)}-e\\d+$`);
+      session.exercises.forEach((exercise, j) => {
+        const exAt = `${at}.exercises.${j}`;
+        if (!exerciseId.test(exercise.id)) {
+          warnings.push({
+            path: `${exAt}.id`,
+            message: `Exercise id "${exercise.id}" does not follow ${session.id}-e<n>.`,
+          });
+        }
+        const prior = exerciseIds.get(exercise.id);
+        if (prior !== undefined) {
+          errors.push({
+            path: `${exAt}.id`,
+            message: `Duplicate exercise id "${exercise.id}" (also at ${prior}).`,
+          });
+        } else {
+          exerciseIds.set(exercise.id, exAt);
+        }
+      });
+    });
+  }
+
+  // Its exercises already surfaced as duplicates above; name the session too,
+  // since that's the actual mistake.
+  const historyIds = new Set(program.history.map((h) => h.id));
+  program.queue.forEach((session, i) => {
+    if (historyIds.has(session.id)) {
+      errors.push({
+        path: `queue.${i}.id`,
+        message: `Session "${session.id}" is both queued and in history (already ingested).`,
+      });
+    }
+  });
+
+  const basedOnSeen = new Set<string>();
+  program.basedOn.forEach((fileName, i) => {
+    if (!LOG_FILE_NAME.test(fileName)) {
+      warnings.push({
+        path: `basedOn.${i}`,
+        message: `"${fileName}" does not look like a log filename (<YYYY-MM-DD>-<slug>.json).`,
+      });
+    }
+    if (basedOnSeen.has(fileName)) {
+      warnings.push({ path: `basedOn.${i}`, message: `"${fileName}" is listed twice.` });
+    }
+    basedOnSeen.add(fileName);
+  });
+
+  return { ok: errors.length === 0, errors, warnings, program, envelope };
+}
+
+/** A plain-text report, one finding per line — for the CLI and 422 bodies. */
+export function formatReport(report: ProgramReport): string {
+  const lines: string[] = [];
+  if (report.program) {
+    lines.push(
+      `program: schema ${report.program.schema}, generation ${report.program.generation}, ` +
+        `${report.program.queue.length} queued, ${report.program.history.length} in history`,
+    );
+  }
+  for (const e of report.errors) lines.push(`error   ${e.path}: ${e.message}`);
+  for (const w of report.warnings) lines.push(`warning ${w.path}: ${w.message}`);
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+  const warnings = count(report.warnings.length, "warning");
+  lines.push(
+    report.ok
+      ? `OK (${warnings})`
+      : `INVALID (${count(report.errors.length, "error")}, ${warnings})`,
+  );
+  return lines.join("\n");
+}
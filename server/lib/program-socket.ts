@@ -0,0 +1,74 @@
+import type { Server as HttpServer } from "http";
+import { Server as SocketServer } from "socket.io";
+import { DEFAULT_ATHLETE, type AthleteRegistry } from "./athletes";
+import { deviceTokens } from "./device-tokens";
+import { ProgramWatcher } from "./program-watch";
+
+/**
+ * Live program push: a socket.io endpoint at /api/socket that tells connected
+ * phones `program` `{ generation, generatedAt }` whenever the brain publishes
+ * a new generation. Phones pull over HTTP as usual when they hear it — the
+ * socket only says "there's something new", it never carries the program.
+ *
+ * Each athlete has their own watcher and room (`athlete:<id>`); a phone joins
+ * only its own athlete's room, so it only hears about its own program. A
+ * watcher runs only while its room has someone in it, so an idle server
+ * doesn't poll GitHub. Connections go through the same device gate as /api;
+ * with no gate, a tokenless handshake may name an athlete (`auth.athlete`).
+ */
+export interface ProgramFeed {
+  io: SocketServer;
+  /** Re-read an athlete's program now and tell their phones if the generation moved. */
+  refresh(athlete: string): void;
+}
+
+export function attachProgramSocket(httpServer: HttpServer, athletes: AthleteRegistry): ProgramFeed {
+  const io = new SocketServer(httpServer, {
+    path: "/api/socket",
+    serveClient: false,
+    // Vite's HMR socket shares this server in dev: leave upgrades for other
+    // paths alone instead of destroying them.
+    destroyUpgrade: false,
+  });
+  const watchers = new Map(
+    athletes.all().map((scope) => [scope.athlete.id, new ProgramWatcher(scope.store)] as const),
+  );
+  const room = (athlete: string) => `athlete:${athlete}`;
+
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token;
+    const device = typeof token === "string" ? deviceTokens.verify(token) : undefined;
+    let scope = device ? athletes.ofDevice(device) : undefined;
+    if (!scope && !athletes.gated) {
+      const named = socket.handshake.auth?.athlete;
+      scope = athletes.get(typeof named === "string" ? named : DEFAULT_ATHLETE);
+    }
+    if (scope) {
+      socket.data.athlete = scope.athlete.id;
+      next();
+      return;
+    }
+    next(new Error("unauthorized"));
+  });
+
+  io.on("connection", (socket) => {
+    const athlete = socket.data.athlete as string;
+    const watcher = watchers.get(athlete)!;
+    void socket.join(room(athlete));
+    watcher.start((change) => io.to(room(athlete)).emit("program", change));
+    // A phone reconnecting after a while catches up without waiting for the
+    // next change.
+    const latest = watcher.latest();
+    if (latest) {
+      socket.emit("program", latest);
+    }
+    socket.on("disconnect", () => {
+      // By now the socket has left its rooms.
+      if (!io.sockets.adapter.rooms.get(room(athlete))?.size) {
+        watcher.shutdown();
+      }
+    });
+  });
+
+  return { io, refresh: (athlete) => watchers.get(athlete)?.poke() };
+}
@@ -0,0 +1,108 @@
+import type { PointOneStore } from "./point-one-store";
+import { lintProgram } from "./program-lint";
+
+/**
+ * Notices when the brain publishes a new program generation, so connected
+ * phones can pull it straight away instead of on their next focus event.
+ *
+ * Stores that can watch program.json on disk (fs / local git) report changes
+ * as they happen; every other store (GitHub, Gitea, GitLab, memory) is polled
+ * every PROGRAM_POLL_MS — cheap on GitHub, whose program reads are cached and
+ * ETag-revalidated (a 304 costs no rate limit). Either way the program is
+ * re-read and linted, and only a changed, valid generation is reported. A
+ * webhook that knows better can `poke` for an immediate check.
+ */
+
+export interface ProgramChange {
+  generation: number;
+  generatedAt: string;
+}
+
+const DEFAULT_POLL_MS = 60_000;
+
+export class ProgramWatcher {
+  private stop: (() => void) | undefined;
+  private onChange: ((change: ProgramChange) => void) | undefined;
+  private checking = false;
+  /** A check was asked for while one was running — run another after it. */
+  private recheck = false;
+  private current: ProgramChange | undefined;
+
+  constructor(
+    private readonly store: PointOneStore,
+    private readonly pollMs: number = Number(process.env.PROGRAM_POLL_MS) || DEFAULT_POLL_MS,
+  ) {}
+
+  /** The generation last seen, if any — what a newly connected client is told. */
+  latest(): ProgramChange | undefined {
+    return this.current;
+  }
+
+  /** Start watching (idempotent). `onChange` gets each new generation. */
+  start(onChange: (change: ProgramChange) => void): void {
+    if (this.stop) return;
+    this.onChange = onChange;
+    const check = () => void this.check(onChange);
+    let unwatch: (() => void) | undefined;
+    try {
+      unwatch = this.store.watchProgram?.(check);
+    } catch (err) {
+      // e.g. the workout dir doesn't exist yet — polling still works.
+      console.warn(`[program-watch] can't watch program.json (${(err as Error).message}); polling instead`);
+    }
+    if (unwatch) {
+      this.stop = unwatch;
+    } else {
+      const timer = setInterval(check, this.pollMs);
+      timer.unref();
+      this.stop = () => clearInterval(timer);
+    }
+    check();
+  }
+
+  /**
+   * Check now rather than at the next watch event or poll — for when we've
+   * been told the program changed (a webhook). No-op while stopped: with
+   * nobody connected there's no one to tell.
+   */
+  poke(): void {
+    if (this.onChange) {
+      void this.check(this.onChange);
+    }
+  }
+
+  shutdown(): void {
+    this.onChange = undefined;
+    this.stop?.();
+    this.stop = undefined;
+  }
+
+  private async check(onChange: (change: ProgramChange) => void): Promise<void> {
+    if (this.checking) {
+      this.recheck = true;
+      return;
+    }
+    this.checking = true;
+    try {
+      const { program } = lintProgram(await this.store.readProgram());
+      if (!program) return;
+      const seen = this.current;
+      this.current = { generation: program.generation, generatedAt: program.generatedAt };
+      if (
+        seen &&
+        (seen.generation !== program.generation || seen.generatedAt !== program.generatedAt)
+      ) {
+        onChange(this.current);
+      }
+    } catch (err) {
+      // The next change or poll tries again; GET /api/program reports the detail.
+      console.warn(`[program-watch] could not read program.json: ${(err as Error).message}`);
+    } finally {
+      this.checking = false;
+      if (this.recheck) {
+        this.recheck = false;
+        void this.check(onChange);
+      }
+    }
+  }
+}
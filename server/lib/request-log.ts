@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto";
+import type { RequestHandler, Response } from "express";
+import { storeBackend } from "./point-one-store";
+
+/**
+ * Request logging for /api: one JSON line per request, so Railway's log
+ * search can filter on any field. Every response (not just /api) carries an
+ * `X-Request-Id` — the caller's own if it sent a sane one, else a fresh
+ * uuid — and the client keeps it on a failed call, so a toast on the phone
+ * leads straight to the line.
+ *
+ * Lines are built from named fields only; no request or response body is
+ * ever serialised. Session contents, access codes and minted device tokens
+ * therefore never reach the log. The one thing read from a response body is
+ * the `message` of an error — written by this server, never an echo of input
+ * — and an Authorization header is never read at all.
+ */
+
+/** An inbound X-Request-Id we'll adopt (a proxy's); anything else is replaced. */
+const REQUEST_ID = /^[\w.:-]{1,64}$/;
+
+/** What a session write did, for the request's log line (see `noteCommit`). */
+export interface CommitNote {
+  /** Log file name — never its contents. */
+  fileName: string;
+  committed: boolean;
+  spooled: boolean;
+  receiptId: string;
+  /** The commit that wrote it, when the store made one. */
+  sha?: string;
+  skipReason?: string;
+  /** An idempotent replay: the earlier receipt, nothing written. */
+  duplicate?: boolean;
+}
+
+interface RequestLogLine {
+  time: string;
+  level: "info" | "warn" | "error";
+  requestId: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  store: string;
+  /** Whose program/log the request was for (lib/athletes). */
+  athlete?: string;
+  device?: string;
+  commit?: CommitNote;
+  message?: string;
+}
+
+/** Attach a session write's outcome to the current request's log line. */
+export function noteCommit(res: Response, commit: CommitNote): void {
+  res.locals.commit = commit;
+}
+
+export const requestLogger: RequestHandler = (req, res, next) => {
+  const start = Date.now();
+  const inbound = req.header("x-request-id");
+  const requestId = inbound && REQUEST_ID.test(inbound) ? inbound : randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+
+  // Keep only an error's `message`; the body itself is never kept.
+  let errorMessage: string | undefined;
+  const originalJson = res.json;
+  res.json = function (body, ...args) {
+    if (res.statusCode >= 400 && typeof body?.message === "string") {
+      errorMessage = body.message;
+    }
+    return originalJson.apply(res, [body, ...args]);
+  };
+
+  // req.path is relative once a router strips its mount; originalUrl isn't.
+  const path = req.originalUrl.split("?")[0];
+  res.on("finish", () => {
+    if (!path.startsWith("/api")) {
+      return;
+    }
+    const status = res.statusCode;
+    const line: RequestLogLine = {
+      time: new Date().toISOString(),
+      level: status >= 500 ? "error" : status >= 400 ? "warn" : "info",
+      requestId,
+      method: req.method,
+      path,
+      status,
+      durationMs: Date.now() - start,
+      store: storeBackend,
+    };
+    if (res.locals.athlete) {
+      line.athlete = res.locals.athlete.athlete.id;
+    }
+    if (res.locals.device) {
+      line.device = res.locals.device.id;
+    }
+    if (res.locals.commit) {
+      line.commit = res.locals.commit;
+    }
+    if (errorMessage) {
+      line.message = errorMessage;
+    }
+    console.log(JSON.stringify(line));
+  });
+
+  next();
+};
@@ -0,0 +1,153 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { mkdtempSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  LocalGitPointOneStore,
+  MemoryPointOneStore,
+  StoreError,
+  type WriteOptions,
+  type WriteResult,
+} from "./point-one-store";
+import { SessionOutbox } from "./session-outbox";
+
+const WORKOUT_PATH = "point-one/workout";
+
+const session = (note = "") => ({
+  id: "s-2026-06-09-lower-heavy",
+  name: "Lower Heavy",
+  performedDate: "2026-06-09",
+  note,
+});
+
+/** The memory store, failing each write with the next queued error first. */
+class FlakyStore extends MemoryPointOneStore {
+  readonly failures: Error[] = [];
+  committed = true;
+
+  constructor() {
+    super({});
+  }
+
+  async writeSession(record: unknown, options?: WriteOptions): Promise<WriteResult> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    const result = await super.writeSession(record, options);
+    return this.committed ? { ...result, committed: true, commit: { sha: "abc123" } } : result;
+  }
+}
+
+function spoolDir(): string {
+  return mkdtempSync(path.join(tmpdir(), "outbox-"));
+}
+
+test("a committed write is receipted as committed", async () => {
+  const outbox = new SessionOutbox(new FlakyStore(), spoolDir());
+  const outcome = await outbox.submit(session());
+  assert.equal(outcome.spooled, false);
+  assert.equal(outcome.receipt.state, "committed");
+});
+
+test("a write the store didn't commit is receipted as written, not committed", async () => {
+  const store = new FlakyStore();
+  store.committed = false;
+  const outbox = new SessionOutbox(store, spoolDir());
+  const outcome = await outbox.submit(session());
+  assert.equal(outcome.receipt.state, "written");
+  assert.equal((await outbox.receipt(outcome.receipt.id))?.state, "written");
+});
+
+test("a permanent failure keeps the record as a dead letter that a restart retries", async () => {
+  const dir = spoolDir();
+  const store = new FlakyStore();
+  store.failures.push(new StoreError("Bad credentials", "permanent"));
+  const outbox = new SessionOutbox(store, dir);
+
+  await assert.rejects(outbox.submit(session()), /Bad credentials/);
+  // Still spooled on disk: one file, named for its receipt.
+  const files = readdirSync(dir).filter((f) => f.endsWith(".json"));
+  assert.equal(files.length, 1);
+  const receipt = { id: files[0].replace(/\.json$/, "") };
+  assert.equal((await outbox.receipt(receipt.id))?.state, "failed");
+  assert.equal(outbox.status().failed, 1);
+
+  // Restarted with the config fixed: the dead letter goes through.
+  const restarted = new SessionOutbox(store, dir);
+  for (let i = 0; i < 50 && (await restarted.receipt(receipt.id))?.state !== "committed"; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.equal((await restarted.receipt(receipt.id))?.state, "committed");
+  assert.equal(restarted.status().failed, 0);
+});
+
+test("a submit whose record a drain dead-lettered first is refused, not answered empty", async () => {
+  const store = new FlakyStore();
+  const outbox = new SessionOutbox(store, spoolDir());
+  // A drain gets to the new record between its spooling and the submit's own attempt.
+  const supersede = outbox["supersede"].bind(outbox);
+  outbox["supersede"] = async (entry: unknown) => {
+    await supersede(entry);
+    store.failures.push(new StoreError("Bad credentials", "permanent"));
+    await outbox["drain"]();
+  };
+
+  await assert.rejects(
+    outbox.submit(session()),
+    (err) => err instanceof StoreError && !err.retryable && /Bad credentials/.test(err.message),
+  );
+  assert.equal(outbox.status().failed, 1);
+});
+
+test("a retry that fails again is rescheduled", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const store = new FlakyStore();
+  store.failures.push(new StoreError("GitHub 503", "transient"), new StoreError("GitHub 503", "transient"));
+  const outbox = new SessionOutbox(store, spoolDir());
+
+  const outcome = await outbox.submit(session());
+  assert.equal(outcome.spooled, true);
+  const firstRetry = outbox.status().nextRetryAt;
+  assert.ok(firstRetry);
+
+  // The first retry fails too — another must be scheduled, not dropped.
+  t.mock.timers.tick(30_000);
+  await settle(() => outbox.status().nextRetryAt !== null && outbox.status().nextRetryAt !== firstRetry);
+  assert.equal(outbox.status().pending, 1);
+
+  // The second retry (60 s later, backing off) lands it.
+  t.mock.timers.tick(60_000);
+  await settle(() => outbox.status().pending === 0);
+  assert.equal((await outbox.receipt(outcome.receipt.id))?.state, "committed");
+});
+
+test("a resend of an identical log cites the original write's path and commit", async () => {
+  const repo = mkdtempSync(path.join(tmpdir(), "outbox-repo-"));
+  execFileSync("git", ["init", "-q", "-b", "main", repo]);
+  for (const [key, value] of Object.entries({ "user.name": "test", "user.email": "test@example.com" })) {
+    execFileSync("git", ["-C", repo, "config", key, value]);
+  }
+  const store = new LocalGitPointOneStore(repo, WORKOUT_PATH, false);
+
+  const first = await new SessionOutbox(store, spoolDir()).submit(session());
+  assert.equal(first.spooled, false);
+  assert.ok(first.spooled === false && first.result.committed && first.result.commit);
+
+  // A second server (fresh spool, no idempotency record) gets the same log.
+  const again = await new SessionOutbox(store, spoolDir()).submit(session());
+  assert.ok(again.spooled === false);
+  assert.equal(again.result.committed, false);
+  assert.equal(again.result.skipReason, "identical to the log already stored");
+  assert.equal(again.result.path, first.result.path);
+  assert.ok(path.isAbsolute(again.result.path));
+  assert.deepEqual(again.result.commit, first.result.commit);
+});
+
+/** Let queued promise and file work run until `done` holds (or give up after 2 s). */
+async function settle(done: () => boolean): Promise<void> {
+  const giveUpAt = Date.now() + 2_000;
+  while (!done() && Date.now() < giveUpAt) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
@@ -0,0 +1,472 @@
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import path from "path";
+import {
+  sessionFileName,
+  SerialQueue,
+  StoreError,
+  type PointOneStore,
+  type SessionLike,
+  type WriteResult,
+} from "./point-one-store";
+
+/**
+ * Durable server-side outbox for POST /api/session — the safety net between
+ * the phone and git. Every accepted record is spooled to disk before the store
+ * is touched. If the store takes it there and then, the caller gets the commit
+ * result as before; if the store is unreachable (GitHub down, repo locked), the
+ * record stays spooled, the caller gets a receipt id (202), and a background
+ * drain keeps retrying with backoff — across restarts, since the spool is
+ * re-read on startup.
+ *
+ * A permanent failure (bad token, missing repo) doesn't lose the record either:
+ * it stays on disk as a dead letter (`failed`) with its error, and a restart —
+ * how config gets fixed — puts it back in the queue.
+ *
+ * Ordering: every store write goes through one queue, and a newer record for
+ * the same session (id + performedDate) supersedes a still-spooled older one,
+ * so a retry can never land stale content over a same-day amend (D9).
+ *
+ * Duplicate guard: a submit carries an idempotency key — the caller's
+ * `Idempotency-Key`, else id + performedDate + a hash of the content — and a
+ * key the outbox already holds gets the original receipt back with no second
+ * write. Past that memory, the write itself reads the log file first: the same
+ * content already there is not committed again, and a file holding a
+ * *different* session id (two sessions with the same name on one day) is left
+ * alone — the newcomer is written as `<date>-<slug>-2.json` (then -3, …).
+ */
+
+/**
+ * Where a spooled record is in its life: waiting (`spooled`), in the store
+ * and committed (`committed`) or stored without a commit (`written` — a store
+ * that doesn't commit, an identical log already there, a commit git skipped;
+ * `result.skipReason` says which), a dead letter after a permanent failure
+ * (`failed`), or replaced by a newer record for the same session (`superseded`).
+ */
+export type ReceiptState = "spooled" | "committed" | "written" | "failed" | "superseded";
+
+/** What GET /api/session/receipt/:id reports — an entry minus the record. */
+export interface OutboxReceipt {
+  id: string;
+  state: ReceiptState;
+  /**
+   * The log filename (`<date>-<slug>.json`). Until committed, the name the
+   * record would get on its own; a same-named session already in the log can
+   * push it to `-2`, `-3`… when written.
+   */
+  fileName: string;
+  /** What a resubmit must present to get this receipt back (see `submit`). */
+  idempotencyKey?: string;
+  receivedAt: string;
+  attempts: number;
+  lastError: string | null;
+  /** Set once in the store (committed or written). */
+  result?: WriteResult;
+  committedAt?: string;
+}
+
+interface OutboxEntry extends OutboxReceipt {
+  session: unknown;
+  /** Label of the device that sent it, for the commit's `Device` trailer. */
+  device?: string;
+  /** sha256 of the record as received, to spot an idempotency key reused for other content. */
+  contentHash?: string;
+}
+
+export interface OutboxStatus {
+  /** Records spooled and not yet in the store. */
+  pending: number;
+  /** Dead letters: records a permanent store failure refused, kept until restart. */
+  failed: number;
+  oldestReceivedAt: string | null;
+  lastError: string | null;
+  nextRetryAt: string | null;
+}
+
+/**
+ * Outcome of a submit: written now, or spooled for the background drain.
+ * `duplicate` means the idempotency key matched an earlier submit and this
+ * is that submit's receipt — nothing new was written.
+ */
+export type SubmitOutcome =
+  | { spooled: false; receipt: OutboxReceipt; result: WriteResult; duplicate: boolean }
+  | { spooled: true; receipt: OutboxReceipt; duplicate: boolean };
+
+/** Who's submitting and how to recognise a resubmit. */
+export interface SubmitOptions {
+  /** The caller's `Idempotency-Key`; derived from id + performedDate + content when absent. */
+  idempotencyKey?: string;
+  /** The signed-in device's label, carried into the commit. */
+  device?: string;
+}
+
+/** An `Idempotency-Key` presented again with different content — a client bug, never retried. */
+export class IdempotencyKeyError extends Error {
+  constructor(key: string) {
+    super(`Idempotency-Key ${key} was already used for a different session record.`);
+    this.name = "IdempotencyKeyError";
+  }
+}
+
+/** First drain retry after a failure; doubles up to DRAIN_RETRY_MAX_MS. */
+const DRAIN_RETRY_BASE_MS = 30_000;
+const DRAIN_RETRY_MAX_MS = 15 * 60_000;
+/** Finished receipts are kept this long so a phone can still ask about them. */
+const RECEIPT_TTL_MS = 7 * 24 * 60 * 60_000;
+/** Same-named sessions one day can hold (`-2` … `-N`) before a write is refused. */
+const MAX_SAME_NAME = 20;
+
+export class SessionOutbox {
+  private readonly entries = new Map<string, OutboxEntry>();
+  private readonly writes = new SerialQueue();
+  private readonly ready: Promise<void>;
+  private draining = false;
+  /** A drain was asked for while one ran — go again when it ends. */
+  private redrain = false;
+  private failures = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private nextRetryAt: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly store: PointOneStore,
+    readonly dir: string,
+  ) {
+    // Anything spooled before a restart starts draining straight away.
+    this.ready = this.recover().then(
+      () => this.kick(),
+      // No spool dir: submits fall back to writing straight through.
+      (err) => console.warn(`[outbox] spool ${dir} unavailable: ${(err as Error).message}`),
+    );
+  }
+
+  /**
+   * Spool a (contract-valid) record, then try the store. Resolves with the
+   * write result, or with `spooled: true` when the store failed in a way a
+   * retry can fix. A permanent store failure (bad token, missing repo) is
+   * thrown — retrying now wouldn't help — and the record is kept as a dead
+   * letter (`failed`) rather than dropped.
+   *
+   * A submit whose idempotency key (the caller's, else derived from id +
+   * performedDate + content) matches a spooled or committed receipt resolves
+   * with that receipt instead, `duplicate: true`. Throws IdempotencyKeyError
+   * when an explicit key comes back with different content.
+   */
+  async submit(session: unknown, { idempotencyKey, device }: SubmitOptions = {}): Promise<SubmitOutcome> {
+    await this.ready;
+    const contentHash = hashContent(session);
+    const key = idempotencyKey ?? `${sessionKeyOf(session)}:${contentHash.slice(0, 16)}`;
+    const earlier = this.withKey(key);
+    if (earlier) {
+      if (earlier.contentHash !== contentHash) {
+        throw new IdempotencyKeyError(key);
+      }
+      return earlier.result
+        ? { spooled: false, receipt: receiptOf(earlier), result: earlier.result, duplicate: true }
+        : { spooled: true, receipt: receiptOf(earlier), duplicate: true };
+    }
+
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      state: "spooled",
+      fileName: sessionFileName(session as SessionLike),
+      idempotencyKey: key,
+      receivedAt: new Date().toISOString(),
+      attempts: 0,
+      lastError: null,
+      session,
+      device,
+      contentHash,
+    };
+    try {
+      await this.persist(entry);
+    } catch (err) {
+      // A spool we can't write is no worse than no spool: write straight
+      // through, as before the outbox existed.
+      console.warn(`[outbox] could not spool ${entry.fileName}: ${(err as Error).message}`);
+      const result = await this.writes.run(() =>
+        guardedWrite(this.store, session, device),
+      );
+      return { spooled: false, receipt: receiptOf(entry), result, duplicate: false };
+    }
+    this.entries.set(entry.id, entry);
+    await this.supersede(entry);
+
+    const failure = await this.writes.run(() => this.attempt(entry));
+    // A drain may have reached the entry first (this attempt is then a no-op):
+    // answer from where the entry ended up, not from this attempt alone.
+    if (entry.state === "failed") {
+      throw isPermanent(failure)
+        ? failure
+        : new StoreError(entry.lastError ?? "The store refused the session.", "permanent");
+    }
+    if (entry.result) {
+      // The store is taking writes — flush anything older that was waiting.
+      this.kick();
+      return { spooled: false, receipt: receiptOf(entry), result: entry.result, duplicate: false };
+    }
+    if (failure) {
+      this.scheduleRetry();
+    }
+    return { spooled: true, receipt: receiptOf(entry), duplicate: false };
+  }
+
+  /** A receipt by id, or undefined if this server never issued it (or pruned it). */
+  async receipt(id: string): Promise<OutboxReceipt | undefined> {
+    await this.ready;
+    const entry = this.entries.get(id);
+    return entry ? receiptOf(entry) : undefined;
+  }
+
+  /** Receipts for records still waiting on the store, oldest first. */
+  pending(): OutboxReceipt[] {
+    return Array.from(this.entries.values())
+      .filter((e) => e.state === "spooled")
+      .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+      .map(receiptOf);
+  }
+
+  status(): OutboxStatus {
+    const pending = this.pending();
+    const failed = Array.from(this.entries.values()).filter((e) => e.state === "failed").length;
+    return {
+      pending: pending.length,
+      failed,
+      oldestReceivedAt: pending[0]?.receivedAt ?? null,
+      lastError: pending.length > 0 || failed > 0 ? this.lastError : null,
+      nextRetryAt: this.nextRetryAt,
+    };
+  }
+
+  /** Drain now, cancelling any pending retry timer. */
+  private kick(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+      this.nextRetryAt = null;
+    }
+    void this.drain();
+  }
+
+  /**
+   * Write spooled records oldest-first; stop at the first retryable failure.
+   * Whatever is still spooled when a pass ends — a failure, a record that
+   * arrived mid-pass, an unexpected throw — gets a retry with backoff, so
+   * nothing waits for the next submit or a restart.
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.redrain = true;
+      return;
+    }
+    this.draining = true;
+    try {
+      do {
+        this.redrain = false;
+        try {
+          if (await this.drainOnce()) {
+            this.failures = 0;
+            await this.prune();
+          }
+        } catch (err) {
+          console.warn(`[outbox] drain failed: ${(err as Error).message}`);
+        }
+      } while (this.redrain);
+    } finally {
+      this.draining = false;
+    }
+    if (this.pending().length > 0) {
+      this.scheduleRetry();
+    }
+  }
+
+  /** One pass over the spool; false when the store failed retryably. */
+  private async drainOnce(): Promise<boolean> {
+    const pending = Array.from(this.entries.values())
+      .filter((e) => e.state === "spooled")
+      .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+    for (const entry of pending) {
+      const failure = await this.writes.run(() => this.attempt(entry));
+      if (failure && !isPermanent(failure)) {
+        // The store is down — don't walk the whole spool into it.
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * One store write for a spooled entry (run on the write queue). Returns the
+   * failure instead of throwing, having recorded it on the entry. A permanent
+   * failure makes the entry a dead letter (`failed`), kept on disk.
+   */
+  private async attempt(entry: OutboxEntry): Promise<unknown> {
+    if (entry.state !== "spooled") return undefined;
+    entry.attempts++;
+    try {
+      entry.result = await guardedWrite(this.store, entry.session, entry.device);
+      entry.fileName = path.basename(entry.result.path);
+      entry.state = entry.result.committed ? "committed" : "written";
+      entry.committedAt = new Date().toISOString();
+      entry.lastError = null;
+      this.lastError = null;
+    } catch (err) {
+      entry.lastError = (err as Error).message;
+      this.lastError = entry.lastError;
+      if (isPermanent(err)) {
+        entry.state = "failed";
+      }
+      console.warn(`[outbox] ${entry.fileName} (attempt ${entry.attempts}) failed: ${entry.lastError}`);
+      await this.persist(entry).catch(() => undefined);
+      return err;
+    }
+    await this.persist(entry).catch((err) =>
+      console.warn(`[outbox] could not record commit of ${entry.fileName}: ${(err as Error).message}`),
+    );
+    return undefined;
+  }
+
+  /**
+   * The live (spooled or stored) entry holding `key`, if any. A dead letter
+   * doesn't count: sending it again is a fresh try, which supersedes it.
+   */
+  private withKey(key: string): OutboxEntry | undefined {
+    return Array.from(this.entries.values()).find(
+      (e) => e.idempotencyKey === key && e.state !== "superseded" && e.state !== "failed",
+    );
+  }
+
+  /** A newer record for the same session retires older spooled ones and dead letters. */
+  private async supersede(newer: OutboxEntry): Promise<void> {
+    const session = sessionKeyOf(newer.session);
+    for (const entry of Array.from(this.entries.values())) {
+      if (
+        entry !== newer &&
+        (entry.state === "spooled" || entry.state === "failed") &&
+        sessionKeyOf(entry.session) === session
+      ) {
+        entry.state = "superseded";
+        await this.persist(entry).catch(() => undefined);
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.failures++;
+    const delay = Math.min(DRAIN_RETRY_BASE_MS * 2 ** (this.failures - 1), DRAIN_RETRY_MAX_MS);
+    this.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.nextRetryAt = null;
+      void this.drain();
+    }, delay);
+    // A pending retry must never keep the process alive on shutdown.
+    this.retryTimer.unref();
+  }
+
+  /** Load the spool from disk; unreadable files are left alone for a human. */
+  private async recover(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        const entry = JSON.parse(await readFile(path.join(this.dir, name), "utf8")) as OutboxEntry;
+        if (entry.state === "failed") {
+          // Config is fixed by restarting: give dead letters another go.
+          entry.state = "spooled";
+        }
+        this.entries.set(entry.id, entry);
+      } catch (err) {
+        console.warn(`[outbox] skipping unreadable spool file ${name}: ${(err as Error).message}`);
+      }
+    }
+    await this.prune();
+    const pending = this.status().pending;
+    if (pending > 0) {
+      console.log(`[outbox] ${pending} spooled session(s) to deliver from ${this.dir}`);
+    }
+  }
+
+  /** Forget finished receipts past their TTL (dead letters wait for a restart). */
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - RECEIPT_TTL_MS;
+    for (const entry of Array.from(this.entries.values())) {
+      const finishedAt = Date.parse(entry.committedAt ?? entry.receivedAt);
+      if (entry.state !== "spooled" && entry.state !== "failed" && finishedAt < cutoff) {
+        this.entries.delete(entry.id);
+        await unlink(this.entryPath(entry.id)).catch(() => undefined);
+      }
+    }
+  }
+
+  /** Write an entry atomically (temp file + rename), so a crash never leaves half a record. */
+  private async persist(entry: OutboxEntry): Promise<void> {
+    const target = this.entryPath(entry.id);
+    const tmp = `${target}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry, null, 2), "utf8");
+    await rename(tmp, target);
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+function receiptOf(entry: OutboxEntry): OutboxReceipt {
+  const { session: _session, device: _device, contentHash: _contentHash, ...receipt } = entry;
+  return receipt;
+}
+
+/** A store failure no retry will fix (bad token, missing repo). */
+function isPermanent(err: unknown): boolean {
+  return err instanceof StoreError && !err.retryable;
+}
+
+/** The duplicate guard's identity for a record: session id + performedDate. */
+function sessionKeyOf(session: unknown): string {
+  const { id, performedDate } = (session ?? {}) as { id?: unknown; performedDate?: unknown };
+  return `${String(id)}:${String(performedDate)}`;
+}
+
+function hashContent(session: unknown): string {
+  return createHash("sha256").update(JSON.stringify(session)).digest("hex");
+}
+
+/**
+ * Write a record without clobbering another session or re-committing itself.
+ * Walks `<date>-<slug>.json`, `-2`, `-3`… to the first file that is free or
+ * already holds this session id; identical content there is reported as an
+ * uncommitted no-op, citing the commit that stored it, instead of written again.
+ */
+async function guardedWrite(
+  store: PointOneStore,
+  session: unknown,
+  device: string | undefined,
+): Promise<WriteResult> {
+  const base = sessionFileName(session as SessionLike);
+  const id = (session as { id?: unknown }).id;
+  for (let n = 1; n <= MAX_SAME_NAME; n++) {
+    const fileName = n === 1 ? base : base.replace(/\.json$/, `-${n}.json`);
+    const existing = await store.readSession(fileName);
+    if (existing === undefined) {
+      return store.writeSession(session, { fileName, device });
+    }
+    if ((existing as { id?: unknown }).id !== id) {
+      continue; // another session that happens to share the name
+    }
+    if (JSON.stringify(existing) === JSON.stringify(session)) {
+      // Same path shape as a write, and the commit that stored it first.
+      return {
+        ...(await store.storedSession(fileName)),
+        committed: false,
+        skipReason: "identical to the log already stored",
+      };
+    }
+    return store.writeSession(session, { fileName, device });
+  }
+  throw new StoreError(
+    `${MAX_SAME_NAME} other sessions already use ${base} and its -N variants; refusing to write another.`,
+    "permanent",
+  );
+}
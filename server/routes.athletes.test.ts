@@ -0,0 +1,88 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import type { MemoryPointOneStore } from "./lib/point-one-store";
+import { demoProgram } from "./fixtures/demo-program";
+
+// Two athletes, no access codes of their own: the gate is APP_SECRET, set per
+// test. The registries read their config at import time.
+const dir = mkdtempSync(path.join(tmpdir(), "routes-athletes-"));
+process.env.POINT_ONE_DEVICES_FILE = path.join(dir, "devices.json");
+process.env.POINT_ONE_STORE = "memory";
+process.env.POINT_ONE_OUTBOX_DIR = path.join(dir, "outbox");
+process.env.POINT_ONE_ATHLETES = JSON.stringify({
+  law: { workoutPath: "law/workout" },
+  sam: { workoutPath: "sam/workout" },
+});
+delete process.env.APP_SECRET;
+delete process.env.ADMIN_SECRET;
+
+/** A handler that never answers fails the test instead of hanging it. */
+const REQUEST_TIMEOUT_MS = 5_000;
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const { athletes } = await import("./lib/athletes");
+  // Tell the two apart by generation.
+  (athletes.get("sam")!.store as MemoryPointOneStore).setProgram({ ...demoProgram, generation: 5 });
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function get(route: string, token?: string) {
+  return fetch(`${base}${route}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+async function generationAt(route: string, token?: string): Promise<number> {
+  const res = await get(route, token);
+  assert.equal(res.status, 200);
+  return ((await res.json()) as { program: { generation: number } }).program.generation;
+}
+
+test("with no gate, the path picks the athlete", async () => {
+  assert.equal(await generationAt("/api/a/law/program"), 1);
+  assert.equal(await generationAt("/api/a/sam/program"), 5);
+  assert.equal((await get("/api/a/zed/program")).status, 404);
+  // Several athletes and no token: nobody to default to.
+  assert.equal((await get("/api/program")).status, 400);
+});
+
+test("a token acts for its own athlete only: another's path is a 403", async () => {
+  process.env.APP_SECRET = "open sesame";
+  try {
+    const signIn = await fetch(`${base}/api/auth/device`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: "open sesame", name: "law's phone", athlete: "law" }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    assert.equal(signIn.status, 201);
+    const { token } = (await signIn.json()) as { token: string };
+
+    assert.equal(await generationAt("/api/program", token), 1);
+    assert.equal(await generationAt("/api/a/law/program", token), 1);
+    assert.equal((await get("/api/a/sam/program", token)).status, 403);
+    assert.equal((await get("/api/a/sam/sessions", token)).status, 403);
+    assert.equal((await get("/api/a/sam/program")).status, 401);
+  } finally {
+    delete process.env.APP_SECRET;
+  }
+});
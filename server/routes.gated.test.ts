@@ -0,0 +1,68 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+
+// Gated by APP_SECRET. The registries read their config at import time.
+const dir = mkdtempSync(path.join(tmpdir(), "routes-gated-"));
+process.env.POINT_ONE_DEVICES_FILE = path.join(dir, "devices.json");
+process.env.POINT_ONE_STORE = "memory";
+process.env.POINT_ONE_OUTBOX_DIR = path.join(dir, "outbox");
+process.env.APP_SECRET = "open sesame";
+delete process.env.ADMIN_SECRET;
+delete process.env.POINT_ONE_ATHLETES;
+
+/** A handler that never answers fails the test instead of hanging it. */
+const REQUEST_TIMEOUT_MS = 5_000;
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const signIn = (code: string) =>
+  fetch(`${base}/api/auth/device`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code, name: "phone" }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+test("the program needs a device token once a code is set", async () => {
+  assert.equal((await fetch(`${base}/api/program`)).status, 401);
+
+  const res = await signIn("open sesame");
+  assert.equal(res.status, 201);
+  const { token } = (await res.json()) as { token: string };
+  const program = await fetch(`${base}/api/program`, { headers: { Authorization: `Bearer ${token}` } });
+  assert.equal(program.status, 200);
+});
+
+test("five wrong codes are 401s; the sixth is a 429 with Retry-After, even for the right code", async () => {
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await signIn("guess")).status, 401);
+  }
+  const locked = await signIn("guess");
+  assert.equal(locked.status, 429);
+  assert.equal(locked.headers.get("retry-after"), "60");
+  assert.equal(((await locked.json()) as { retryAfterSeconds: number }).retryAfterSeconds, 60);
+
+  const right = await signIn("open sesame");
+  assert.equal(right.status, 429);
+  assert.ok(Number(right.headers.get("retry-after")) > 0);
+});
@@ -0,0 +1,224 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { IncomingMessage, Server } from "http";
+import express from "express";
+import type { MemoryPointOneStore, PointOneStore } from "./lib/point-one-store";
+import { demoProgram } from "./fixtures/demo-program";
+import { signBody } from "./lib/github-webhook";
+
+// The store, the outbox and the device registry read their config at import
+// time: the store in memory, seeded with the demo program; the rest in a temp dir.
+const dir = mkdtempSync(path.join(tmpdir(), "routes-"));
+const devicesFile = path.join(dir, "devices.json");
+process.env.POINT_ONE_DEVICES_FILE = devicesFile;
+process.env.POINT_ONE_STORE = "memory";
+process.env.POINT_ONE_OUTBOX_DIR = path.join(dir, "outbox");
+delete process.env.POINT_ONE_SEED;
+delete process.env.APP_SECRET;
+delete process.env.ADMIN_SECRET;
+delete process.env.POINT_ONE_ATHLETES;
+delete process.env.POINT_ONE_WORKOUT_PATH;
+delete process.env.GITHUB_BRANCH;
+delete process.env.GITHUB_WEBHOOK_SECRET;
+
+/** A handler that never answers fails the test instead of hanging it. */
+const REQUEST_TIMEOUT_MS = 5_000;
+
+/** A session as a phone sends it back, performed. */
+const performed = { ...demoProgram.queue[0], performedDate: "2026-06-09" };
+
+let server: Server;
+let base: string;
+let store: PointOneStore;
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  store = (await import("./lib/athletes")).athletes.all()[0].store;
+  const app = express();
+  // As server/index.ts: webhook signatures are over the bytes as received.
+  const keepRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+    req.rawBody = buf;
+  };
+  app.use(express.json({ verify: keepRawBody }));
+  app.use(express.urlencoded({ extended: false, verify: keepRawBody }));
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test("a devices file that can't be written is a 500, not a crash", async () => {
+  const signIn = () =>
+    fetch(`${base}/api/auth/device`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: "any", name: "phone" }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  const first = await signIn();
+  assert.equal(first.status, 201);
+  const { device } = (await first.json()) as { device: { id: string } };
+
+  // Its temp file's name taken by a directory, every later save fails.
+  mkdirSync(`${devicesFile}.tmp`);
+
+  const refused = await signIn();
+  assert.equal(refused.status, 500);
+  assert.match(((await refused.json()) as { message: string }).message, /devices\.json\.tmp/);
+
+  const revoke = await fetch(`${base}/api/admin/devices/${device.id}`, {
+    method: "DELETE",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  assert.equal(revoke.status, 500);
+
+  // Still serving.
+  assert.equal((await fetch(`${base}/api/health`)).status, 200);
+});
+
+test("a store call that rejects is a 500, not a crash", async () => {
+  store.checkHealth = async () => {
+    throw new Error("store exploded");
+  };
+  try {
+    const res = await fetch(`${base}/api/health/deep`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    assert.equal(res.status, 500);
+    assert.equal(((await res.json()) as { message: string }).message, "store exploded");
+  } finally {
+    delete store.checkHealth;
+  }
+  assert.equal((await fetch(`${base}/api/health`)).status, 200);
+});
+
+test("a malformed session is a 422 naming each failing field, and nothing is written", async () => {
+  const res = await fetch(`${base}/api/session`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...performed,
+      performedDate: "June 9th",
+      exercises: [{ ...performed.exercises[0], workingSets: -1 }],
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  assert.equal(res.status, 422);
+  const { errors } = (await res.json()) as { errors: { path: string; message: string }[] };
+  assert.deepEqual(errors.map((e) => e.path).sort(), ["exercises.0.workingSets", "performedDate"]);
+
+  assert.equal((store as MemoryPointOneStore).sessions.size, 0);
+  const { outbox } = (await import("./lib/athletes")).athletes.all()[0];
+  assert.equal(outbox.status().pending, 0);
+});
+
+test("an unchanged program answers 304 to its ETag, a new generation 200 with a new one", async () => {
+  const getProgram = (etag?: string) =>
+    fetch(`${base}/api/program`, {
+      headers: etag ? { "If-None-Match": etag } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  const first = await getProgram();
+  assert.equal(first.status, 200);
+  const etag = first.headers.get("etag");
+  assert.ok(etag);
+
+  const repeat = await getProgram(etag);
+  assert.equal(repeat.status, 304);
+  assert.equal(await repeat.text(), "");
+
+  (store as MemoryPointOneStore).setProgram({ ...demoProgram, generation: 2 });
+  const fresh = await getProgram(etag);
+  assert.equal(fresh.status, 200);
+  assert.notEqual(fresh.headers.get("etag"), etag);
+  assert.equal(((await fresh.json()) as { program: { generation: number } }).program.generation, 2);
+});
+
+test("a diff names generations in the history: 400 for a non-number, 404 for one it doesn't hold", async () => {
+  const diff = (query: string) =>
+    fetch(`${base}/api/program/diff?${query}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+  assert.equal((await diff("from=1&to=1")).status, 200);
+  assert.equal((await diff("from=latest")).status, 400);
+  assert.equal((await diff("from=1&to=2.5")).status, 400);
+  const missing = await diff("from=99");
+  assert.equal(missing.status, 404);
+  assert.match(((await missing.json()) as { message: string }).message, /Generation 99/);
+});
+
+const WEBHOOK_SECRET = "webhook-secret";
+/** The push the send-github-hook CLI sends: it touches the default athlete's program.json. */
+const pushPayload = readFileSync(path.join(import.meta.dirname, "fixtures/github-push.json"), "utf8");
+
+function deliver(
+  body: string,
+  { signature = signBody(body, WEBHOOK_SECRET), form = false, delivery = crypto.randomUUID() } = {},
+) {
+  return fetch(`${base}/api/hooks/github`, {
+    method: "POST",
+    headers: {
+      "Content-Type": form ? "application/x-www-form-urlencoded" : "application/json",
+      "X-GitHub-Event": "push",
+      "X-GitHub-Delivery": delivery,
+      ...(signature ? { "X-Hub-Signature-256": signature } : {}),
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+test("a signed push touching program.json drops the cached program; its replay is a 409", async () => {
+  process.env.GITHUB_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  let invalidated = 0;
+  store.invalidateProgram = () => {
+    invalidated++;
+  };
+  try {
+    const res = await deliver(pushPayload);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { ok: true, event: "push", programChanged: true });
+    assert.equal(invalidated, 1);
+
+    // Same signed body under a fresh delivery id: still a replay.
+    const replay = await deliver(pushPayload);
+    assert.equal(replay.status, 409);
+    assert.equal(invalidated, 1);
+  } finally {
+    delete store.invalidateProgram;
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+  }
+});
+
+test("a push with a missing or wrong signature is a 401", async () => {
+  process.env.GITHUB_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  try {
+    const body = pushPayload.replace("generation 4", "generation 5");
+    assert.equal((await deliver(body, { signature: "" })).status, 401);
+    assert.equal((await deliver(body, { signature: signBody(body, "not-the-secret") })).status, 401);
+    assert.equal((await deliver(body, { signature: signBody(pushPayload, WEBHOOK_SECRET) })).status, 401);
+  } finally {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+  }
+});
+
+test("a form-encoded push is read from its payload field", async () => {
+  process.env.GITHUB_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  try {
+    const payload = JSON.stringify({ ...JSON.parse(pushPayload), after: "b8d4" });
+    const res = await deliver(new URLSearchParams({ payload }).toString(), { form: true });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { ok: true, event: "push", programChanged: true });
+  } finally {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+  }
+});
+
+test("the webhook is a 404 with no secret set", async () => {
+  const res = await deliver(pushPayload.replace("generation 4", "generation 6"));
+  assert.equal(res.status, 404);
+});
@@ -1,83 +1,788 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { pointOneStore } from "./lib/point-one-store";
+import { createHash } from "crypto";
+import {
+  StoreError,
+  storeBackend,
+  type HealthCheck,
+  type PointOneStore,
+  type ProgramVersion,
+  type StoreHealth,
+} from "./lib/point-one-store";
+import { lintProgram, formatReport } from "./lib/program-lint";
+import { IdempotencyKeyError, type OutboxStatus } from "./lib/session-outbox";
+import { athletes, DEFAULT_ATHLETE, type AthleteScope } from "./lib/athletes";
+import { deviceTokens, type DeviceRecord } from "./lib/device-tokens";
+import { AttemptLimiter, secretsMatch } from "./lib/attempt-limiter";
+import { attachProgramSocket } from "./lib/program-socket";
+import { noteCommit } from "./lib/request-log";
+import {
+  DeliveryLog,
+  payloadDigest,
+  touchesProgram,
+  verifySignature,
+  type PushEvent,
+} from "./lib/github-webhook";
+import { performedSessionSchema, contractIssues, type ProgramEnvelope } from "@shared/seam";
+import { SEAM_SCHEMA, supportedSchemas, upgradeSession } from "@shared/seam-migrations";
+import { diffPrograms, summarizeGeneration } from "@shared/program-diff";
 
 /**
- * Shell-level secret gate. ONLY enforced when APP_SECRET is set in the
- * environment; otherwise it's a no-op pass-through (local dev). When enforced,
- * the request must carry `x-app-secret` matching APP_SECRET, else 401.
+ * Device gate. ONLY enforced when an access code is configured (APP_SECRET,
+ * or an athlete's own — see lib/athletes); otherwise a token is optional
+ * (local dev), though a valid one still says which athlete is asking. When
+ * enforced, the request must carry `Authorization: Bearer <device token>` for
+ * a device that hasn't been revoked, else 401. An access code itself is only
+ * good for minting a token (POST /api/auth/device).
  *
- * This is a single shared code for a single-user personal tool — not real auth.
+ * Still a personal tool's lock, not real auth — but one lost phone is now one
+ * revocation, not a new code for every device.
  */
-const requireSecret: RequestHandler = (req, res, next) => {
-  const expected = process.env.APP_SECRET;
-  if (!expected) {
+const requireDevice: RequestHandler = (req, res, next) => {
+  const token = bearerToken(req.header("authorization"));
+  const device = token ? deviceTokens.verify(token) : undefined;
+  if (device || !athletes.gated) {
+    res.locals.device = device;
     next();
     return;
   }
-  const provided = req.header("x-app-secret");
-  if (provided === expected) {
+  res.status(401).json({ message: "This device isn't signed in (or was revoked)." });
+};
+
+/**
+ * Athlete scope for the program/session routes, into `res.locals.athlete`. A
+ * signed-in device acts for the athlete its token was minted for, and a
+ * `/api/a/:athlete/...` path naming anyone else is a 403 — a token never
+ * reaches another athlete's program or log. With the gate off, the path
+ * picks the athlete (404 if unknown), else the default one.
+ */
+const withAthlete: RequestHandler = (req, res, next) => {
+  const named = req.params.athlete as string | undefined;
+  const device = res.locals.device as DeviceRecord | undefined;
+  const own = device ? athletes.ofDevice(device) : undefined;
+  if (own) {
+    if (named !== undefined && named !== own.athlete.id) {
+      res.status(403).json({ message: "This device is signed in for a different athlete." });
+      return;
+    }
+    res.locals.athlete = own;
     next();
     return;
   }
-  res.status(401).json({ message: "Invalid or missing access code." });
+  if (athletes.gated) {
+    // Only a token minted before POINT_ONE_ATHLETES was set gets here.
+    res.status(401).json({ message: "This device signed in before athletes were set up — sign in again." });
+    return;
+  }
+  const scope = athletes.get(named ?? DEFAULT_ATHLETE);
+  if (!scope) {
+    if (named === undefined) {
+      res.status(400).json({ message: "Which athlete? Sign in as one, or use /api/a/<athlete>/…" });
+    } else {
+      res.status(404).json({ message: `No athlete ${named}.` });
+    }
+    return;
+  }
+  res.locals.athlete = scope;
+  next();
 };
 
+/** A program/session route's paths: `/api/<p>` (athlete from the token) and `/api/a/:athlete/<p>`. */
+function athletePaths(p: string): string[] {
+  return [`/api${p}`, `/api/a/:athlete${p}`];
+}
+
+/** The requester's athlete, as resolved by `withAthlete`. */
+function scopeOf(res: Response): AthleteScope {
+  return res.locals.athlete as AthleteScope;
+}
+
+/** Every athlete's outbox as one: what /api/health reports. */
+function combinedOutboxStatus(): OutboxStatus {
+  const all = athletes.all().map((scope) => scope.outbox.status());
+  const earliest = (values: (string | null)[]) =>
+    values.filter((v): v is string => v !== null).sort()[0] ?? null;
+  return {
+    pending: all.reduce((sum, s) => sum + s.pending, 0),
+    failed: all.reduce((sum, s) => sum + s.failed, 0),
+    oldestReceivedAt: earliest(all.map((s) => s.oldestReceivedAt)),
+    lastError: all.find((s) => s.lastError !== null)?.lastError ?? null,
+    nextRetryAt: earliest(all.map((s) => s.nextRetryAt)),
+  };
+}
+
+/**
+ * Admin gate for the device list: `x-admin-secret` must match ADMIN_SECRET
+ * (falling back to APP_SECRET). Deliberately not a device token — a lost
+ * phone mustn't be able to revoke the others. With neither set it is open
+ * only on an ungated server; one gated by athletes' own access codes alone
+ * refuses admin calls (403) rather than leave them open to anyone.
+ */
+const requireAdmin: RequestHandler = (req, res, next) => {
+  const expected = process.env.ADMIN_SECRET ?? process.env.APP_SECRET;
+  if (!expected && athletes.gated) {
+    res.status(403).json({
+      message: "Device admin is off: set ADMIN_SECRET to list or revoke devices.",
+    });
+    return;
+  }
+  if (
+    !expected ||
+    checkSecret(
+      adminAttempts,
+      req,
+      res,
+      req.header("x-admin-secret"),
+      (provided) => secretsMatch(provided, expected),
+      "Invalid or missing admin secret.",
+    )
+  ) {
+    next();
+  }
+};
+
+/** Wrong-guess tracking per client IP, one per typed secret. */
+const codeAttempts = new AttemptLimiter("access code");
+const adminAttempts = new AttemptLimiter("admin secret");
+
+/**
+ * Check a typed secret with `matches` for the requesting IP, answering
+ * the request itself when it fails: 401 for a wrong guess, 429 + Retry-After
+ * while the IP is locked out (including the guess that earned the lockout).
+ * Returns true only for a right answer.
+ */
+function checkSecret(
+  limiter: AttemptLimiter,
+  req: Request,
+  res: Response,
+  provided: string | undefined,
+  matches: (provided: string) => boolean,
+  wrongMessage: string,
+): boolean {
+  const client = req.ip ?? "unknown";
+  let lockedFor = limiter.lockedFor(client);
+  if (lockedFor === 0) {
+    if (provided !== undefined && matches(provided)) {
+      limiter.succeed(client);
+      return true;
+    }
+    lockedFor = limiter.fail(client);
+    if (lockedFor === 0) {
+      res.status(401).json({ message: wrongMessage });
+      return false;
+    }
+  }
+  const retryAfterSeconds = Math.ceil(lockedFor / 1000);
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({
+    message: `Too many attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    retryAfterSeconds,
+  });
+  return false;
+}
+
+function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * ETag for a program response: the generation (what every client freshness
+ * check keys off) plus a content hash, so an in-place edit the brain made
+ * without bumping the generation still invalidates phones' caches.
+ */
+function programETag(generation: number, body: unknown): string {
+  const hash = createHash("sha256").update(JSON.stringify(body)).digest("hex").slice(0, 16);
+  return `"g${generation}-${hash}"`;
+}
+
+/** GitHub delivery ids already handled — a repeat is a replay. */
+const githubDeliveries = new DeliveryLog();
+
+/** An `Idempotency-Key` we'll store: printable ASCII, bounded. */
+const IDEMPOTENCY_KEY = /^[\x21-\x7e]{1,200}$/;
+
+/** A log file's basename — no separators, no dot-dot, `.json` only. */
+const LOG_FILE_NAME = /^[a-z0-9][a-z0-9-]*\.json$/i;
+
+/** True when an `If-None-Match` header names `etag` (or is `*`). */
+function matchesETag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Answer a failed store call. Classified failures tell the client whether to
+ * keep retrying: retryable → 503 (+ Retry-After when the backend advised one),
+ * permanent → 502. Anything unclassified gets `fallbackStatus`.
+ */
+function sendStoreError(res: Response, err: unknown, fallbackStatus: number): void {
+  const message = (err as Error).message;
+  if (err instanceof StoreError) {
+    if (err.retryAfterMs !== undefined) {
+      res.setHeader("Retry-After", String(Math.ceil(err.retryAfterMs / 1000)));
+    }
+    res
+      .status(err.retryable ? 503 : 502)
+      .json({ message, kind: err.kind, retryable: err.retryable });
+    return;
+  }
+  res.status(fallbackStatus).json({ message });
+}
+
+/** How many program.json commits the generation history looks back over. */
+const PROGRAM_HISTORY_LIMIT = 30;
+
+/** A past generation: the program as linted, and the commit that wrote it. */
+interface Generation {
+  program: ProgramEnvelope;
+  commit: ProgramVersion["commit"];
+}
+
+/**
+ * The store's program.json history as generations, newest first. Versions
+ * that don't pass the contract are left out; a generation committed more
+ * than once (the brain fixing it in place) is its newest commit.
+ */
+async function programGenerations(store: PointOneStore): Promise<Generation[]> {
+  const generations = new Map<number, Generation>();
+  for (const { commit, program: raw } of await store.programHistory!(PROGRAM_HISTORY_LIMIT)) {
+    const program = lintProgram(raw).program;
+    if (program && !generations.has(program.generation)) {
+      generations.set(program.generation, { program, commit });
+    }
+  }
+  return Array.from(generations.values()).sort((a, b) => b.program.generation - a.program.generation);
+}
+
+/**
+ * An async handler whose rejection answers 500 JSON (as sendStoreError does)
+ * instead of escaping: Express 4 doesn't await handlers, so a throw — the
+ * devices file failing to write, say — would be an unhandled rejection that
+ * takes the process down and leaves the request hanging. Every async route
+ * goes through it.
+ */
+function guarded(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res) => {
+    handler(req, res).catch((err: unknown) => {
+      console.error(`[routes] ${req.method} ${req.path} failed: ${(err as Error).message}`);
+      if (!res.headersSent) {
+        sendStoreError(res, err, 500);
+      }
+    });
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  const httpServer = createServer(app);
+  // Live "new program" push (socket.io at /api/socket) — see lib/program-socket.
+  const programFeed = attachProgramSocket(httpServer, athletes);
+
   // Health check endpoint — left open so liveness probes don't need the code.
-  app.get("/api/health", (_req, res) => {
+  // With POINT_ONE_PUSH=1 it also reports the background push (ahead/behind);
+  // `outbox` is how many accepted sessions are still waiting for the store
+  // (every athlete's together). Athletes share one clone, so one push status.
+  app.get("/api/health", guarded(async (_req, res) => {
+    const push = await athletes.all()[0].store.pushStatus?.();
     res.json({
       status: "ok",
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      outbox: combinedOutboxStatus(),
+      ...(push ? { push } : {}),
     });
-  });
+  }));
 
   // --- GIT SEAM ----------------------------------------------------------
   // This frontend is a thin limb of the Point One brain, whose canonical state
   // is a git repo. The brain writes the program (the plan); the frontend reads
   // it and appends performed sessions (actuals) back. See lib/point-one-store.
   //
-  // Secret-code gate: gates every /api/* route below (program + session). It is
-  // a no-op when APP_SECRET is unset (local dev). Registered after /api/health
-  // so the health check stays open.
-  app.use("/api", requireSecret);
+  // POST /api/auth/device — trade an access code for this device's own token
+  // (`{ code, name?, athlete? }` → `{ token, device }`), bound to one athlete.
+  // An athlete's own code signs in as them; the shared APP_SECRET needs
+  // `athlete` once POINT_ONE_ATHLETES is set (400 "Which athlete?" without
+  // it). The token is shown once; the server keeps only its hash. With no
+  // code configured (local dev) any code works, so the client flow is the
+  // same everywhere.
+  app.post("/api/auth/device", guarded(async (req, res) => {
+    const { code, name, athlete } = (req.body ?? {}) as {
+      code?: unknown;
+      name?: unknown;
+      athlete?: unknown;
+    };
+    const requested = typeof athlete === "string" && athlete ? athlete : undefined;
+    if (!athletes.gated && typeof code !== "string") {
+      res.status(401).json({ message: "Invalid access code." });
+      return;
+    }
+    let scope: AthleteScope | undefined;
+    if (athletes.gated) {
+      const shared = process.env.APP_SECRET;
+      const matches = (provided: string) => {
+        scope = athletes.byAccessCode(provided);
+        return !!scope || (!!shared && secretsMatch(provided, shared));
+      };
+      if (
+        !checkSecret(codeAttempts, req, res, typeof code === "string" ? code : undefined, matches, "Invalid access code.")
+      ) {
+        return;
+      }
+    }
+    if (scope && requested !== undefined && requested !== scope.athlete.id) {
+      res.status(403).json({ message: "That access code belongs to a different athlete." });
+      return;
+    }
+    if (!scope) {
+      const id = requested ?? (athletes.multi ? undefined : DEFAULT_ATHLETE);
+      if (id === undefined) {
+        res.status(400).json({ message: "Which athlete? This server has more than one." });
+        return;
+      }
+      scope = athletes.get(id);
+      if (!scope) {
+        res.status(404).json({ message: `No athlete ${id}.` });
+        return;
+      }
+    }
+    const label = typeof name === "string" && name.trim() ? name : req.header("user-agent") ?? "";
+    const { device, token } = await deviceTokens.issue(label, scope.athlete.id);
+    res.status(201).json({ token, device });
+  }));
+
+  // Device admin — list devices (with last-seen) and revoke one. Behind the
+  // admin secret, not a device token; registered before the device gate.
+  app.get("/api/admin/devices", requireAdmin, (_req, res) => {
+    res.json({ devices: deviceTokens.list() });
+  });
+  app.delete("/api/admin/devices/:id", requireAdmin, guarded(async (req, res) => {
+    if (!(await deviceTokens.revoke(req.params.id))) {
+      res.status(404).json({ message: `No device ${req.params.id}.` });
+      return;
+    }
+    res.json({ ok: true });
+  }));
 
-  // GET /api/program — read the program JSON the brain wrote.
-  app.get("/api/program", async (_req, res) => {
+  // POST /api/hooks/github — GitHub push webhook (lib/github-webhook). Signed
+  // with GITHUB_WEBHOOK_SECRET rather than a device token, so it sits before
+  // the device gate. A push to GITHUB_BRANCH touching an athlete's
+  // program.json drops their cached program and tells their phones. 404 when no secret is set,
+  // 401 for a missing/bad signature, 409 for a signed body already handled
+  // (whatever its delivery id — see payloadDigest).
+  app.post("/api/hooks/github", (req, res) => {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      res.status(404).json({ message: "GitHub webhook not configured (GITHUB_WEBHOOK_SECRET is unset)." });
+      return;
+    }
+    if (!req.rawBody || !verifySignature(req.rawBody, req.header("x-hub-signature-256"), secret)) {
+      res.status(401).json({ message: "Missing or invalid X-Hub-Signature-256." });
+      return;
+    }
+    const delivery = req.header("x-github-delivery");
+    if (!delivery) {
+      res.status(400).json({ message: "Missing X-GitHub-Delivery." });
+      return;
+    }
+    let payload: unknown = req.body;
+    if (req.is("application/x-www-form-urlencoded")) {
+      try {
+        payload = JSON.parse((req.body as { payload?: string }).payload ?? "");
+      } catch {
+        res.status(400).json({ message: "A form-encoded delivery needs its JSON in `payload`." });
+        return;
+      }
+    }
+    if (!githubDeliveries.accept(payloadDigest(req.rawBody))) {
+      res.status(409).json({ message: `Delivery ${delivery} repeats a payload already handled.` });
+      return;
+    }
+
+    const event = req.header("x-github-event");
+    if (event !== "push") {
+      // `ping` on setup, or an event the hook shouldn't be subscribed to.
+      res.json({ ok: true, event, programChanged: false });
+      return;
+    }
+    const branch = process.env.GITHUB_BRANCH ?? "main";
+    let programChanged = false;
+    for (const { athlete, store } of athletes.all()) {
+      if (touchesProgram(payload as PushEvent, branch, athlete.workoutPath)) {
+        programChanged = true;
+        store.invalidateProgram?.();
+        programFeed.refresh(athlete.id);
+      }
+    }
+    res.json({ ok: true, event, programChanged });
+  });
+
+  // Device gate: gates every /api/* route below (program + session). It is a
+  // no-op when no access code is set (local dev). Registered after /api/health
+  // and the sign-in/admin/webhook routes so those stay reachable without a token.
+  app.use("/api", requireDevice);
+
+  // Everything below reads or writes one athlete's workout dir: each route
+  // answers at `/api/<route>` (the token's athlete) and `/api/a/:athlete/<route>`,
+  // through `withAthlete`.
+
+  // GET /api/health/deep — what's actually wrong when the phone can't reach
+  // Point One: the store's own checks (repo + branch for local git; token,
+  // write access, branch and rate limit for GitHub), whether program.json
+  // reads and passes the contract, the athlete's outbox and any push backlog.
+  // Behind the device gate (it names the repo). 200 when every check passes,
+  // 503 otherwise — the body is the same shape either way.
+  app.get(athletePaths("/health/deep"), withAthlete, guarded(async (_req, res) => {
+    const { athlete, store, outbox } = scopeOf(res);
+    const health: StoreHealth = (await store.checkHealth?.()) ?? { checks: [] };
+    const checks: HealthCheck[] = [...health.checks];
     try {
-      const program = await pointOneStore.readProgram();
-      res.json(program);
+      const report = lintProgram(await store.readProgram());
+      checks.push({
+        name: "program",
+        ok: report.ok,
+        detail: report.ok
+          ? `generation ${report.program!.generation}`
+          : `program.json fails the seam contract: ${report.errors.map((e) => `${e.path}: ${e.message}`).join("; ")}`,
+      });
     } catch (err) {
-      res.status(404).json({ message: (err as Error).message });
+      checks.push({ name: "program", ok: false, detail: (err as Error).message });
     }
-  });
+    const pending = outbox.status();
+    checks.push({
+      name: "outbox",
+      ok: pending.lastError === null && pending.failed === 0,
+      detail:
+        pending.failed > 0
+          ? `${pending.failed} session(s) refused by the store, kept until a restart retries them — last error: ${pending.lastError}`
+          : pending.pending === 0
+            ? "nothing waiting"
+            : `${pending.pending} session(s) waiting${pending.lastError ? ` — last error: ${pending.lastError}` : ""}`,
+    });
+    const push = await store.pushStatus?.();
+    if (push) {
+      checks.push({
+        name: "push",
+        ok: push.state !== "diverged" && push.state !== "wrong-branch" && push.lastError === null,
+        detail: push.lastError
+          ? `Pushing to ${push.remote}/${push.branch} is failing: ${push.lastError}`
+          : `${push.state}, ${push.ahead ?? "?"} commit(s) not yet on ${push.remote}/${push.branch}`,
+      });
+    }
+    const ok = checks.every((c) => c.ok);
+    res.status(ok ? 200 : 503).json({
+      status: ok ? "ok" : "degraded",
+      timestamp: new Date().toISOString(),
+      store: storeBackend,
+      athlete: athlete.id,
+      checks,
+      ...(health.lastReadAt !== undefined ? { lastReadAt: health.lastReadAt } : {}),
+      ...(health.lastWriteAt !== undefined ? { lastWriteAt: health.lastWriteAt } : {}),
+      ...(health.rateLimit ? { rateLimit: health.rateLimit } : {}),
+      ...(push ? { push } : {}),
+    });
+  }));
+
+  // DELETE /api/auth/device — sign this device out (revokes its own token).
+  app.delete("/api/auth/device", guarded(async (_req, res) => {
+    const device = res.locals.device as DeviceRecord | undefined;
+    if (device) {
+      await deviceTokens.revoke(device.id);
+    }
+    res.json({ ok: true });
+  }));
+
+  // GET /api/program — read the program JSON the brain wrote, linted against
+  // the seam contract before any phone caches it. A usable program comes back
+  // as `{ program, warnings }`; a broken one is a 422 with a readable report.
+  // The last generation served (per athlete) is remembered so a regression
+  // (a brain-side rollback) is served with a warning and logged, not refused.
+  // Responses carry a generation-aware ETag and honor If-None-Match. No
+  // program.json is a 404; a store that can't be reached is a 503, so the
+  // phone reads an outage as one and not as "nothing published yet".
+  // `timeZone` is the athlete's zone for calendar dates (D8): the program's
+  // own, else the athlete's configured one — phones stamp performedDate in it.
+  // A program in an older schema is served up-converted (shared/seam-migrations),
+  // and `schemas` lists the session schemas POST /api/session accepts.
+  const lastServedGeneration = new Map<string, number>();
+  app.get(athletePaths("/program"), withAthlete, guarded(async (req, res) => {
+    const { athlete, store } = scopeOf(res);
+    let program: unknown;
+    try {
+      program = await store.readProgram();
+    } catch (err) {
+      sendStoreError(res, err, 404);
+      return;
+    }
+    const report = lintProgram(program, {
+      previousGeneration: lastServedGeneration.get(athlete.id),
+    });
+    if (!report.ok) {
+      res.status(422).json({
+        message: "Point One's program.json does not match the seam contract.",
+        errors: report.errors,
+        warnings: report.warnings,
+        report: formatReport(report),
+      });
+      return;
+    }
+    const generation = report.program!.generation;
+    const regression = report.warnings.find((w) => w.path === "generation");
+    if (regression) {
+      console.warn(`[program] ${athlete.id}: ${regression.message}`);
+    }
+    lastServedGeneration.set(athlete.id, generation);
+    const body = {
+      program: report.envelope,
+      warnings: report.warnings,
+      schemas: supportedSchemas(),
+      timeZone: report.program!.timeZone ?? athlete.timeZone,
+    };
+    // Conditional GET: the sync loop asks on every focus/visibility/online
+    // event, and the envelope (embedded history included) only grows. An
+    // unchanged program answers 304 with no body.
+    const etag = programETag(generation, body);
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", "no-cache");
+    if (matchesETag(req.header("if-none-match"), etag)) {
+      res.status(304).end();
+      return;
+    }
+    res.json(body);
+  }));
+
+  // GET /api/program/generations — the program's past generations, newest
+  // first (generation, generatedAt, changelog, and the commit that wrote it),
+  // from program.json's history in the store: `git log` locally, the commits
+  // API on GitHub. Looks back over the last PROGRAM_HISTORY_LIMIT commits.
+  app.get(athletePaths("/program/generations"), withAthlete, guarded(async (_req, res) => {
+    const { store } = scopeOf(res);
+    if (!store.programHistory) {
+      res.status(501).json({
+        message: `This store (POINT_ONE_STORE=${storeBackend}) keeps no program history.`,
+      });
+      return;
+    }
+    let generations: Generation[];
+    try {
+      generations = await programGenerations(store);
+    } catch (err) {
+      sendStoreError(res, err, 500);
+      return;
+    }
+    res.json({
+      generations: generations.map(({ program, commit }) => ({ ...summarizeGeneration(program), commit })),
+    });
+  }));
+
+  // GET /api/program/diff?from=<gen>&to=<gen> — what the brain changed between
+  // two generations, per theme: sessions added to or gone from the queue, and
+  // revised sessions' swapped exercises and load/rep/set changes (see
+  // shared/program-diff). `to` defaults to the newest generation. A generation
+  // outside the history is a 404.
+  app.get(athletePaths("/program/diff"), withAthlete, guarded(async (req, res) => {
+    const { store } = scopeOf(res);
+    if (!store.programHistory) {
+      res.status(501).json({
+        message: `This store (POINT_ONE_STORE=${storeBackend}) keeps no program history.`,
+      });
+      return;
+    }
+    const from = Number(req.query.from);
+    const to = req.query.to === undefined ? undefined : Number(req.query.to);
+    if (!Number.isInteger(from) || (to !== undefined && !Number.isInteger(to))) {
+      res.status(400).json({ message: "from (and to, if given) must be generation numbers." });
+      return;
+    }
+    let generations: Generation[];
+    try {
+      generations = await programGenerations(store);
+    } catch (err) {
+      sendStoreError(res, err, 500);
+      return;
+    }
+    const find = (generation: number) => generations.find((g) => g.program.generation === generation);
+    const before = find(from);
+    const after = to === undefined ? generations[0] : find(to);
+    if (!before || !after) {
+      res.status(404).json({
+        message: `Generation ${before ? to : from} isn't in the program's history (last ${PROGRAM_HISTORY_LIMIT} commits).`,
+      });
+      return;
+    }
+    res.json(diffPrograms(before.program, after.program));
+  }));
 
   // POST /api/session — append a performed session (actuals). Append-only:
   // writes one file per session, commits only that file, never the program.
-  app.post("/api/session", async (req, res) => {
-    const body = req.body;
-    if (
-      typeof body !== "object" ||
-      body === null ||
-      Array.isArray(body) ||
-      typeof body.name !== "string" ||
-      body.name.trim() === ""
-    ) {
-      res
-        .status(400)
-        .json({ message: "Body must be a session object with a non-empty `name`." });
+  // The body must satisfy the shared seam contract — the brain ingests what
+  // lands in git as-is, so a malformed record is refused here with a 422
+  // listing every failing field path, before anything is written.
+  //
+  // A valid record is spooled to the server's durable outbox first. If the
+  // store commits it there and then, the answer is the commit result (200);
+  // if the store is unreachable, it's a 202 with a receipt id and the outbox
+  // keeps retrying in the background. Only a permanent store failure errors.
+  //
+  // Duplicates: an `Idempotency-Key` header (else id + performedDate + content
+  // hash) that the outbox already holds answers with the original receipt and
+  // `duplicate: true`, writing nothing; the same key with different content is
+  // a 422. Identical content already in the log isn't committed again, and a
+  // different session id on the same `<date>-<slug>.json` gets `-2`, `-3`…
+  // — `path` says where the record actually went. A commit comes back as
+  // `commit` `{ sha, blobSha?, url? }`, the phone's proof it reached git.
+  //
+  // `X-Seam-Schema` says which schema the record is in (default: the current
+  // one); an older one it still supports is up-converted before validation,
+  // so the log is always written in the current schema.
+  app.post(athletePaths("/session"), withAthlete, guarded(async (req, res) => {
+    const schemaHeader = req.header("x-seam-schema");
+    const schema = schemaHeader === undefined ? SEAM_SCHEMA : Number(schemaHeader);
+    let body: unknown;
+    try {
+      body = upgradeSession(req.body, schema);
+    } catch (err) {
+      // A SchemaMigrationError: a schema this server can't convert from.
+      res.status(422).json({ message: (err as Error).message, schemas: supportedSchemas() });
+      return;
+    }
+    const idempotencyKey = req.header("idempotency-key");
+    if (idempotencyKey !== undefined && !IDEMPOTENCY_KEY.test(idempotencyKey)) {
+      res.status(400).json({ message: "Idempotency-Key must be 1–200 visible ASCII characters." });
+      return;
+    }
+    const parsed = performedSessionSchema.safeParse(body);
+    if (!parsed.success) {
+      res.status(422).json({
+        message: "Session does not match the seam contract (PerformedSession).",
+        errors: contractIssues(parsed.error),
+      });
       return;
     }
     try {
-      const { path, committed } = await pointOneStore.writeSession(body);
-      res.json({ ok: true, path, committed });
+      // Write the body as sent (up-converted), not the parsed copy: zod strips
+      // keys the contract doesn't name yet, and those belong to the brain.
+      const device = (res.locals.device as DeviceRecord | undefined)?.name;
+      const outcome = await scopeOf(res).outbox.submit(body, { idempotencyKey, device });
+      const duplicate = outcome.duplicate ? { duplicate: true } : {};
+      if (outcome.spooled) {
+        noteCommit(res, {
+          fileName: outcome.receipt.fileName,
+          committed: false,
+          spooled: true,
+          receiptId: outcome.receipt.id,
+          ...duplicate,
+        });
+        res.status(202).json({
+          ok: true,
+          spooled: true,
+          receiptId: outcome.receipt.id,
+          ...duplicate,
+          message: `Accepted — Point One's store is unreachable (${outcome.receipt.lastError}); the server will keep trying.`,
+        });
+        return;
+      }
+      const { path, committed, skipReason, commit } = outcome.result;
+      noteCommit(res, {
+        fileName: outcome.receipt.fileName,
+        committed,
+        spooled: false,
+        receiptId: outcome.receipt.id,
+        ...(commit ? { sha: commit.sha } : {}),
+        ...(skipReason ? { skipReason } : {}),
+        ...duplicate,
+      });
+      res.json({
+        ok: true,
+        path,
+        committed,
+        receiptId: outcome.receipt.id,
+        ...(commit ? { commit } : {}),
+        ...(skipReason ? { skipReason } : {}),
+        ...duplicate,
+      });
     } catch (err) {
-      res.status(500).json({ message: (err as Error).message });
+      if (err instanceof IdempotencyKeyError) {
+        res.status(422).json({ message: err.message });
+        return;
+      }
+      sendStoreError(res, err, 500);
     }
-  });
-  // -----------------------------------------------------------------------
+  }));
 
-  const httpServer = createServer(app);
+  // GET /api/sessions — what's actually in `<workoutPath>/log/`: each log file
+  // with its performed date, last commit (sha + time; null if uncommitted) and
+  // whether the current program's basedOn lists it (`ingested`; null when the
+  // program can't be read). `pending` is the server outbox — accepted records
+  // not in the store yet — so "every workout reached the repo" is auditable.
+  app.get(athletePaths("/sessions"), withAthlete, guarded(async (_req, res) => {
+    const { store, outbox } = scopeOf(res);
+    if (!store.listSessions) {
+      res.status(501).json({
+        message: `This store (POINT_ONE_STORE=${storeBackend}) can't list session logs.`,
+      });
+      return;
+    }
+    let logged;
+    try {
+      logged = await store.listSessions();
+    } catch (err) {
+      sendStoreError(res, err, 500);
+      return;
+    }
+    let program: ProgramEnvelope | undefined;
+    try {
+      program = lintProgram(await store.readProgram()).program;
+    } catch {
+      // No readable program: ingestion is unknown, the listing still stands.
+    }
+    const basedOn = program ? new Set(program.basedOn) : undefined;
+    res.json({
+      generation: program?.generation ?? null,
+      sessions: logged.map((s) => ({ ...s, ingested: basedOn ? basedOn.has(s.fileName) : null })),
+      pending: outbox.pending(),
+    });
+  }));
+
+  // GET /api/session/:filename — read one log file back, as committed. Lets a
+  // device whose localStorage was evicted rebuild delivered-but-not-ingested
+  // records (see /api/sessions). Only plain `<name>.json` filenames.
+  app.get(athletePaths("/session/:filename"), withAthlete, guarded(async (req, res) => {
+    const { filename } = req.params;
+    if (!LOG_FILE_NAME.test(filename)) {
+      res.status(400).json({ message: `Not a session log filename: ${filename}` });
+      return;
+    }
+    let record: unknown;
+    try {
+      record = await scopeOf(res).store.readSession(filename);
+    } catch (err) {
+      sendStoreError(res, err, 500);
+      return;
+    }
+    if (record === undefined) {
+      res.status(404).json({ message: `No session log ${filename}.` });
+      return;
+    }
+    res.json({ fileName: filename, record });
+  }));
+
+  // GET /api/session/receipt/:id — where a spooled session has got to:
+  // `spooled` (still retrying; `lastError` says why), `committed` or
+  // `written` (in the store, with the write result; `written` had no commit),
+  // `failed` (the store refused it for good; kept until a restart retries it)
+  // or `superseded` (a newer record for the same log file took its place).
+  // 404 when this server has no such receipt.
+  app.get(athletePaths("/session/receipt/:id"), withAthlete, guarded(async (req, res) => {
+    const receipt = await scopeOf(res).outbox.receipt(req.params.id);
+    if (!receipt) {
+      res.status(404).json({ message: `No receipt ${req.params.id}.` });
+      return;
+    }
+    res.json(receipt);
+  }));
+  // -----------------------------------------------------------------------
 
   return httpServer;
 }
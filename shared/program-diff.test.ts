@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffPrograms } from "./program-diff";
+import type { Exercise, PrescribedSession, ProgramEnvelope } from "./seam";
+
+const exercise = (sessionId: string, n: number, name: string, overrides: Partial<Exercise> = {}): Exercise => ({
+  id: `${sessionId}-e${n}`,
+  name,
+  warmupSets: 1,
+  workingSets: 3,
+  reps: "5",
+  targetLoad: "185 lbs",
+  restSeconds: 180,
+  sets: [],
+  ...overrides,
+});
+
+const session = (id: string, theme: string, exercises: Exercise[]): PrescribedSession => ({
+  id,
+  theme,
+  name: id,
+  exercises,
+});
+
+const lowerHeavy = session("s-2026-06-09-lower-heavy", "lower", [
+  exercise("s-2026-06-09-lower-heavy", 1, "Back Squat"),
+  exercise("s-2026-06-09-lower-heavy", 2, "Romanian Deadlift", { reps: "8", targetLoad: "135 lbs" }),
+]);
+const lowerLight = session("s-2026-06-12-lower-light", "lower", [
+  exercise("s-2026-06-12-lower-light", 1, "Front Squat", { targetLoad: "135 lbs" }),
+]);
+const upperVolume = session("s-2026-06-10-upper-volume", "upper", [
+  exercise("s-2026-06-10-upper-volume", 1, "Bench Press", { reps: "8-10", targetLoad: "135 lbs" }),
+]);
+
+const program = (
+  generation: number,
+  queue: PrescribedSession[],
+  history: ProgramEnvelope["history"] = [],
+): ProgramEnvelope => ({
+  schema: 2,
+  generation,
+  generatedAt: `2026-06-${String(7 + generation).padStart(2, "0")}T16:00:00.000Z`,
+  basedOn: [],
+  changelog: `Generation ${generation}.`,
+  queue,
+  history,
+});
+
+test("a performed session leaves the queue as performed, a dropped one as removed", () => {
+  const before = program(1, [lowerHeavy, upperVolume]);
+  const after = program(2, [], [{ ...lowerHeavy, performedDate: "2026-06-09" }]);
+
+  const diff = diffPrograms(before, after);
+  assert.equal(diff.from.generation, 1);
+  assert.equal(diff.to.generation, 2);
+  assert.deepEqual(diff.themes, [
+    { theme: "lower", added: [], removed: [{ id: lowerHeavy.id, name: lowerHeavy.name, performed: true }], revised: [] },
+    { theme: "upper", added: [], removed: [{ id: upperVolume.id, name: upperVolume.name, performed: false }], revised: [] },
+  ]);
+});
+
+test("a re-minted session is paired with the one it replaced, in queue order", () => {
+  const heavier = session("s-2026-06-11-lower-heavy", "lower", [
+    exercise("s-2026-06-11-lower-heavy", 1, "Back Squat", { targetLoad: "195 lbs" }),
+    exercise("s-2026-06-11-lower-heavy", 2, "Romanian Deadlift", { reps: "8", targetLoad: "135 lbs" }),
+  ]);
+  const lighter = session("s-2026-06-14-lower-light", "lower", [
+    exercise("s-2026-06-14-lower-light", 1, "Front Squat", { targetLoad: "135 lbs", workingSets: 4 }),
+  ]);
+
+  const diff = diffPrograms(program(1, [lowerHeavy, lowerLight]), program(2, [heavier, lighter]));
+  assert.equal(diff.themes.length, 1);
+  const [lower] = diff.themes;
+  assert.deepEqual(lower.added, []);
+  assert.deepEqual(lower.removed, []);
+  assert.deepEqual(
+    lower.revised.map((r) => [r.from.id, r.to.id, r.changed]),
+    [
+      [lowerHeavy.id, heavier.id, [{ name: "Back Squat", changes: [{ field: "targetLoad", from: "185 lbs", to: "195 lbs" }] }]],
+      [lowerLight.id, lighter.id, [{ name: "Front Squat", changes: [{ field: "workingSets", from: 3, to: 4 }] }]],
+    ],
+  );
+});
+
+test("an exercise replaced in place is a swap; any left over is added or dropped", () => {
+  const revised = session("s-2026-06-11-lower-heavy", "lower", [
+    exercise("s-2026-06-11-lower-heavy", 1, "Safety Bar Squat"),
+    exercise("s-2026-06-11-lower-heavy", 2, "Hip Thrust"),
+    exercise("s-2026-06-11-lower-heavy", 3, "Walking Lunge"),
+  ]);
+
+  const [lower] = diffPrograms(program(1, [lowerHeavy]), program(2, [revised])).themes;
+  assert.deepEqual(lower.revised, [
+    {
+      from: { id: lowerHeavy.id, name: lowerHeavy.name },
+      to: { id: revised.id, name: revised.name },
+      swapped: [
+        { from: "Back Squat", to: "Safety Bar Squat" },
+        { from: "Romanian Deadlift", to: "Hip Thrust" },
+      ],
+      added: ["Walking Lunge"],
+      removed: [],
+      changed: [],
+    },
+  ]);
+});
+
+test("a session re-minted with the same prescription is not reported", () => {
+  const same = { ...lowerHeavy, id: "s-2026-06-11-lower-heavy" };
+
+  const diff = diffPrograms(program(1, [lowerHeavy, upperVolume]), program(2, [same, upperVolume]));
+  assert.deepEqual(diff.themes, []);
+});
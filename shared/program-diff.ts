@@ -0,0 +1,174 @@
+import type { Exercise, PrescribedSession, ProgramEnvelope } from "./seam";
+
+/**
+ * Program diff — what the brain changed between two generations of
+ * program.json, for GET /api/program/diff and the client's "see what
+ * changed" view on the While-you-were-away card (D3/D5).
+ *
+ * Sessions are compared per theme. Ids are absolute (a revised prescription
+ * arrives under a new id), so a queued session that vanished is matched up
+ * with a new one of the same theme, in queue order, and reported as a
+ * revision: exercises swapped, added or dropped, and prescription changes on
+ * the exercises both versions have (matched by name). A vanished session the
+ * newer generation's history holds was performed, not dropped.
+ */
+
+/** The prescription fields a revision reports changes to. */
+export const PRESCRIPTION_FIELDS = [
+  "warmupSets",
+  "workingSets",
+  "reps",
+  "targetLoad",
+  "restSeconds",
+] as const;
+
+export type PrescriptionField = (typeof PRESCRIPTION_FIELDS)[number];
+
+/** One generation as GET /api/program/generations lists it. */
+export interface GenerationSummary {
+  generation: number;
+  generatedAt: string;
+  changelog: string;
+}
+
+export interface SessionRef {
+  id: string;
+  name: string;
+}
+
+export interface FieldChange {
+  field: PrescriptionField;
+  from: string | number;
+  to: string | number;
+}
+
+/** An exercise both versions of a session have, with what moved. */
+export interface ExerciseChange {
+  name: string;
+  changes: FieldChange[];
+}
+
+/** A queued session replaced by a revision (or edited in place). */
+export interface SessionRevision {
+  from: SessionRef;
+  to: SessionRef;
+  /** Exercises replaced in place: the old one's name → the new one's. */
+  swapped: { from: string; to: string }[];
+  added: string[];
+  removed: string[];
+  changed: ExerciseChange[];
+}
+
+export interface ThemeDiff {
+  theme: string;
+  /** New in the queue. */
+  added: SessionRef[];
+  /** Gone from the queue; `performed` when the newer history holds it. */
+  removed: (SessionRef & { performed: boolean })[];
+  revised: SessionRevision[];
+}
+
+export interface ProgramDiff {
+  from: GenerationSummary;
+  to: GenerationSummary;
+  /** Only themes with a change, in the newer queue's order. */
+  themes: ThemeDiff[];
+}
+
+export function summarizeGeneration(program: ProgramEnvelope): GenerationSummary {
+  return {
+    generation: program.generation,
+    generatedAt: program.generatedAt,
+    changelog: program.changelog,
+  };
+}
+
+const refOf = (session: PrescribedSession): SessionRef => ({ id: session.id, name: session.name });
+
+const exerciseKey = (exercise: Exercise) => exercise.name.trim().toLowerCase();
+
+function fieldChanges(from: Exercise, to: Exercise): FieldChange[] {
+  return PRESCRIPTION_FIELDS.filter((field) => from[field] !== to[field]).map((field) => ({
+    field,
+    from: from[field],
+    to: to[field],
+  }));
+}
+
+/**
+ * Exercise-level changes between two versions of a session, or undefined if
+ * the prescription is the same. Exercises neither version shares by name are
+ * paired up in order as swaps; whatever is left over was added or dropped.
+ */
+function reviseSession(from: PrescribedSession, to: PrescribedSession): SessionRevision | undefined {
+  const before = new Map(from.exercises.map((e) => [exerciseKey(e), e]));
+  const afterKeys = new Set(to.exercises.map(exerciseKey));
+  const changed: ExerciseChange[] = [];
+  const added: string[] = [];
+  for (const exercise of to.exercises) {
+    const previous = before.get(exerciseKey(exercise));
+    if (!previous) {
+      added.push(exercise.name);
+      continue;
+    }
+    const changes = fieldChanges(previous, exercise);
+    if (changes.length > 0) {
+      changed.push({ name: exercise.name, changes });
+    }
+  }
+  const removed = from.exercises.filter((e) => !afterKeys.has(exerciseKey(e))).map((e) => e.name);
+  if (added.length + removed.length + changed.length === 0) {
+    return undefined;
+  }
+  const pairs = Math.min(added.length, removed.length);
+  const swapped = removed.slice(0, pairs).map((name, i) => ({ from: name, to: added[i] }));
+  return {
+    from: refOf(from),
+    to: refOf(to),
+    swapped,
+    added: added.slice(pairs),
+    removed: removed.slice(pairs),
+    changed,
+  };
+}
+
+export function diffPrograms(from: ProgramEnvelope, to: ProgramEnvelope): ProgramDiff {
+  const beforeIds = new Map(from.queue.map((s) => [s.id, s]));
+  const afterIds = new Set(to.queue.map((s) => s.id));
+  const performed = new Set(to.history.map((s) => s.id));
+
+  const themes: string[] = [];
+  for (const session of [...to.queue, ...from.queue]) {
+    if (!themes.includes(session.theme)) themes.push(session.theme);
+  }
+
+  const diffs: ThemeDiff[] = [];
+  for (const theme of themes) {
+    const revised: SessionRevision[] = [];
+    // Same id in both: the contract says it can't change, but say so if it did.
+    for (const session of to.queue) {
+      const previous = beforeIds.get(session.id);
+      if (session.theme !== theme || !previous) continue;
+      const revision = reviseSession(previous, session);
+      if (revision) revised.push(revision);
+    }
+    const gone = from.queue.filter((s) => s.theme === theme && !afterIds.has(s.id));
+    const fresh = to.queue.filter((s) => s.theme === theme && !beforeIds.has(s.id));
+    const dropped = gone.filter((s) => !performed.has(s.id));
+    const pairs = Math.min(dropped.length, fresh.length);
+    // A re-minted session with the same prescription isn't worth reporting.
+    for (let i = 0; i < pairs; i++) {
+      const revision = reviseSession(dropped[i], fresh[i]);
+      if (revision) revised.push(revision);
+    }
+    const added = fresh.slice(pairs).map(refOf);
+    const removed = [
+      ...gone.filter((s) => performed.has(s.id)).map((s) => ({ ...refOf(s), performed: true })),
+      ...dropped.slice(pairs).map((s) => ({ ...refOf(s), performed: false })),
+    ];
+    if (added.length + removed.length + revised.length > 0) {
+      diffs.push({ theme, added, removed, revised });
+    }
+  }
+  return { from: summarizeGeneration(from), to: summarizeGeneration(to), themes: diffs };
+}
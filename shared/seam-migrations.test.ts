@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { performedSessionSchema, programEnvelopeSchema } from "./seam";
+import { downgradeSession, SEAM_SCHEMA, supportedSchemas, upgradeEnvelope, upgradeSession } from "./seam-migrations";
+
+/** A schema-1 session, as the retired Week[] model wrote it. */
+const v1Session = (overrides: Record<string, unknown> = {}) => ({
+  id: "week-1-session-1",
+  name: "Lower Heavy",
+  scheduledDate: "2025-10-20",
+  dayOfWeek: "Monday",
+  exercises: [
+    {
+      id: "week-1-session-1-exercise-1",
+      name: "Back Squat",
+      workingSets: 3,
+      reps: "12",
+      targetLoad: "2-3 RIR",
+      restSeconds: 180,
+      sets: [{ setNumber: 1, reps: 12, weight: 185, weightUnit: "lbs", completed: true }],
+    },
+  ],
+  completed: true,
+  completedDate: "2025-10-21",
+  ...overrides,
+});
+
+/** A schema-1 program: a bare array of weeks. */
+const v1Program = [
+  {
+    id: "week-1",
+    weekNumber: 1,
+    phase: "Foundation",
+    startDate: "2025-10-20",
+    endDate: "2025-10-26",
+    sessions: [
+      v1Session(),
+      v1Session({ id: "week-1-session-2", name: "Upper Volume", completed: false, completedDate: undefined }),
+    ],
+  },
+  {
+    id: "week-2",
+    weekNumber: 2,
+    phase: "Strength",
+    startDate: "2025-10-27",
+    endDate: "2025-11-02",
+    sessions: [
+      v1Session({ id: "week-2-session-1", scheduledDate: "2025-10-27", completed: false, completedDate: undefined }),
+    ],
+  },
+];
+
+test("schema 1 is still converted up", () => {
+  assert.deepEqual(supportedSchemas(), [1, SEAM_SCHEMA]);
+});
+
+test("a schema-1 Week[] program upgrades to a valid envelope", () => {
+  const upgraded = upgradeEnvelope(v1Program);
+  const parsed = programEnvelopeSchema.safeParse(upgraded);
+  assert.ok(parsed.success, JSON.stringify(!parsed.success && parsed.error.issues));
+  const program = parsed.data;
+  assert.equal(program.schema, SEAM_SCHEMA);
+  assert.equal(program.generation, 0);
+  assert.equal(program.generatedAt, "2025-10-20T00:00:00Z");
+  assert.deepEqual(program.block, { focus: "Foundation", startedOn: "2025-10-20" });
+  // Unfinished sessions queue in week order; the completed one is history.
+  assert.deepEqual(
+    program.queue.map((s) => [s.id, s.theme, s.plannedDate]),
+    [
+      ["week-1-session-2", "upper", "2025-10-20"],
+      ["week-2-session-1", "lower", "2025-10-27"],
+    ],
+  );
+  assert.deepEqual(
+    program.history.map((s) => [s.id, s.performedDate]),
+    [["week-1-session-1", "2025-10-21"]],
+  );
+  assert.equal(program.history[0].exercises[0].warmupSets, 0);
+});
+
+test("a schema-1 session record upgrades to a valid PerformedSession", () => {
+  const upgraded = upgradeSession(v1Session(), 1) as Record<string, unknown>;
+  const parsed = performedSessionSchema.safeParse(upgraded);
+  assert.ok(parsed.success, JSON.stringify(!parsed.success && parsed.error.issues));
+  assert.equal(parsed.data.performedDate, "2025-10-21");
+  assert.equal(parsed.data.plannedDate, "2025-10-20");
+  assert.equal(parsed.data.theme, "lower");
+  // Keys the step doesn't own are kept for the brain.
+  assert.equal(upgraded.dayOfWeek, "Monday");
+  assert.equal("completed" in upgraded, false);
+});
+
+test("a session down-levelled to schema 1 comes back up unchanged", () => {
+  const record = upgradeSession(v1Session(), 1);
+  const down = downgradeSession(record, 1) as Record<string, unknown>;
+  assert.equal(down.completed, true);
+  assert.equal(down.completedDate, "2025-10-21");
+  assert.equal(down.scheduledDate, "2025-10-20");
+  assert.equal("performedDate" in down, false);
+  assert.deepEqual(upgradeSession(down, 1), record);
+});
@@ -0,0 +1,235 @@
+/**
+ * Seam schema migrations — how the contract (shared/seam.ts) moves to schema
+ * 3 and beyond without a flag day. `program.json` says which schema it is in
+ * (`schema`); this code speaks SEAM_SCHEMA, and one step per version bump
+ * converts between neighbours:
+ *
+ *   - envelope up-steps bring an older program — a brain that hasn't moved
+ *     yet, or a phone's cached copy — up to SEAM_SCHEMA before it is linted;
+ *   - session up-steps do the same for PerformedSession records a phone has
+ *     cached (utils/localStorage) or a server has been sent in an older schema;
+ *   - session down-steps turn an outgoing record back into the newest schema
+ *     the server accepts (GET /api/program advertises `schemas`).
+ *
+ * Adding schema N+1: bump SEAM_SCHEMA, then add `[N]` to both up tables and
+ * `[N + 1]` to the down table. Steps are pure, keep keys they don't know
+ * about (those belong to the brain), and never fail on a record of their own
+ * schema.
+ */
+
+/** The schema this code reads and writes natively. */
+export const SEAM_SCHEMA = 2;
+
+/**
+ * The oldest schema still converted up. Schema 1 is the retired `Week[]`
+ * array (attached_assets/workout-model): a bare array with no `schema`
+ * number, sessions nested in weeks, completion flagged on each session.
+ */
+export const OLDEST_SEAM_SCHEMA = 1;
+
+/** What a server that predates `schemas` in GET /api/program accepts. */
+const UNADVERTISED_SCHEMA = 2;
+
+type Json = Record<string, unknown>;
+type Step = (value: Json) => Json;
+
+/** What schema 1's generation-less program is stamped as when it comes up. */
+const SCHEMA_1_CHANGELOG = "Carried over from the week-by-week program.";
+
+/**
+ * A schema-1 session's theme: the first word of its name ("Lower Heavy" →
+ * `lower`), the nearest thing that schema had to one.
+ */
+function themeOf(name: unknown): string {
+  const word = typeof name === "string" ? name.toLowerCase().match(/[a-z0-9]+/) : null;
+  return word ? word[0] : "session";
+}
+
+/**
+ * A schema-1 WorkoutSession as a schema-2 PrescribedSession: `scheduledDate`
+ * becomes `plannedDate`, a theme is derived, exercises gain the `warmupSets`
+ * schema 1 let them omit. Its ids stay — schema 2 ids are opaque, so the
+ * hierarchical ones still serve. The completion fields are left to the caller.
+ */
+function prescribedFromV1(session: Json): Json {
+  const { completed: _completed, completedDate: _completedDate, scheduledDate, ...rest } = session;
+  return {
+    ...rest,
+    theme: typeof rest.theme === "string" ? rest.theme : themeOf(rest.name),
+    ...(typeof scheduledDate === "string" ? { plannedDate: scheduledDate } : {}),
+    exercises: (Array.isArray(rest.exercises) ? rest.exercises : []).map((exercise) =>
+      isRecord(exercise) ? { warmupSets: 0, ...exercise } : exercise,
+    ),
+  };
+}
+
+/** A completed schema-1 session as a schema-2 PerformedSession, dated when it was done. */
+function performedFromV1(session: Json, fallbackDate?: unknown): Json {
+  const performedDate = [session.completedDate, session.scheduledDate, fallbackDate].find(
+    (date) => typeof date === "string",
+  );
+  return { ...prescribedFromV1(session), ...(performedDate ? { performedDate } : {}) };
+}
+
+/** `[n]`: a schema-n program envelope → schema n+1 (queue and history included). */
+const envelopeUp: Record<number, Step> = {
+  /**
+   * Weeks flatten into one queue (unfinished sessions, in week order) and
+   * history (completed ones). Schema 1 had no generations, so it comes up as
+   * generation 0, generated at the start of its first week; the block is the
+   * phase of the week the queue starts in.
+   */
+  1: (value) => {
+    const weeks = (Array.isArray(value.weeks) ? value.weeks : []).filter(isRecord);
+    const queue: Json[] = [];
+    const history: Json[] = [];
+    let current: Json | undefined;
+    for (const week of weeks) {
+      for (const session of (Array.isArray(week.sessions) ? week.sessions : []).filter(isRecord)) {
+        if (session.completed === true) {
+          history.push(performedFromV1(session, week.startDate));
+        } else {
+          current ??= week;
+          queue.push(prescribedFromV1(session));
+        }
+      }
+    }
+    current ??= weeks[weeks.length - 1];
+    const firstDay = weeks[0]?.startDate;
+    const { weeks: _weeks, ...rest } = value;
+    return {
+      ...rest,
+      generation: 0,
+      generatedAt: typeof firstDay === "string" ? `${firstDay}T00:00:00Z` : new Date(0).toISOString(),
+      basedOn: [],
+      changelog: SCHEMA_1_CHANGELOG,
+      ...(current && typeof current.phase === "string"
+        ? {
+            block: {
+              focus: current.phase,
+              ...(typeof current.startDate === "string" ? { startedOn: current.startDate } : {}),
+            },
+          }
+        : {}),
+      queue,
+      history,
+    };
+  },
+};
+
+/** `[n]`: a schema-n PerformedSession → schema n+1. */
+const sessionUp: Record<number, Step> = {
+  1: (record) => performedFromV1(record),
+};
+
+/** `[n]`: a schema-n PerformedSession → schema n-1. */
+const sessionDown: Record<number, Step> = {
+  /** Back to a completed WorkoutSession; schema 1 has no theme, so it goes. */
+  2: (record) => {
+    const { performedDate, plannedDate, theme: _theme, ...rest } = record;
+    return {
+      ...rest,
+      ...(typeof plannedDate === "string" ? { scheduledDate: plannedDate } : {}),
+      completed: true,
+      ...(typeof performedDate === "string" ? { completedDate: performedDate } : {}),
+    };
+  },
+};
+
+/** A record no chain of steps can convert — too old, too new, or not a record. */
+export class SchemaMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaMigrationError";
+  }
+}
+
+/** Every schema this code can convert to and from, oldest first. */
+export function supportedSchemas(): number[] {
+  const schemas: number[] = [];
+  for (let n = OLDEST_SEAM_SCHEMA; n <= SEAM_SCHEMA; n++) {
+    schemas.push(n);
+  }
+  return schemas;
+}
+
+function isRecord(value: unknown): value is Json {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function checkSupported(schema: number, what: string): void {
+  if (!Number.isInteger(schema)) {
+    throw new SchemaMigrationError(`${what} has no valid schema number.`);
+  }
+  if (schema > SEAM_SCHEMA) {
+    throw new SchemaMigrationError(
+      `${what} is schema ${schema}; this version understands up to schema ${SEAM_SCHEMA}.`,
+    );
+  }
+  if (schema < OLDEST_SEAM_SCHEMA) {
+    throw new SchemaMigrationError(
+      `${what} is schema ${schema}, older than this version can convert (schema ${OLDEST_SEAM_SCHEMA}+).`,
+    );
+  }
+}
+
+/** Walk `value` from schema `from` to `to`, one step at a time. */
+function convert(value: Json, from: number, to: number, steps: Record<number, Step>, what: string): Json {
+  const direction = to > from ? 1 : -1;
+  let current = value;
+  for (let n = from; n !== to; n += direction) {
+    const step = steps[n];
+    if (!step) {
+      throw new SchemaMigrationError(`No migration for ${what} from schema ${n} to ${n + direction}.`);
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+/**
+ * A program envelope (or a schema-1 `Week[]` array) up-converted to
+ * SEAM_SCHEMA. Throws SchemaMigrationError for one without an integer
+ * `schema`, or in a schema outside `supportedSchemas()`.
+ */
+export function upgradeEnvelope(raw: unknown): unknown {
+  // Schema 1 was the bare array, before programs said what schema they are.
+  if (Array.isArray(raw)) {
+    raw = { schema: 1, weeks: raw };
+  }
+  if (!isRecord(raw) || !Number.isInteger(raw.schema)) {
+    throw new SchemaMigrationError("The program has no schema number.");
+  }
+  const schema = raw.schema as number;
+  checkSupported(schema, "The program");
+  const upgraded = convert(raw, schema, SEAM_SCHEMA, envelopeUp, "the program");
+  return { ...upgraded, schema: SEAM_SCHEMA };
+}
+
+/** A PerformedSession written in schema `from`, up-converted to SEAM_SCHEMA. */
+export function upgradeSession(record: unknown, from: number): unknown {
+  checkSupported(from, "The session record");
+  return isRecord(record) ? convert(record, from, SEAM_SCHEMA, sessionUp, "a session record") : record;
+}
+
+/** A SEAM_SCHEMA PerformedSession down-levelled to schema `to`. */
+export function downgradeSession(record: unknown, to: number): unknown {
+  checkSupported(to, "The server's session schema");
+  return isRecord(record) ? convert(record, SEAM_SCHEMA, to, sessionDown, "a session record") : record;
+}
+
+/**
+ * The schema to send sessions in: the newest one both this code and the
+ * server (`advertised`, from GET /api/program) speak. A server that
+ * advertises nothing predates the field and speaks schema 2.
+ */
+export function negotiateSchema(advertised: number[] | null | undefined): number {
+  const theirs = advertised && advertised.length > 0 ? advertised : [UNADVERTISED_SCHEMA];
+  const shared = supportedSchemas().filter((n) => theirs.includes(n));
+  if (shared.length === 0) {
+    throw new SchemaMigrationError(
+      `The server accepts schema ${theirs.join(", ")}; this version writes ${supportedSchemas().join(", ")}.`,
+    );
+  }
+  return Math.max(...shared);
+}
@@ -0,0 +1,165 @@
+import { z } from "zod";
+
+/**
+ * The seam contract (schema 2 — program-on-tap), as runtime schemas. Shared by
+ * the server (validates what it is asked to commit) and the client (checks a
+ * record before delivering it), so the two halves can't disagree about what a
+ * well-formed record is. See POINT-ONE.md §The seam contract; the brain's half
+ * is Point One's skills/workout-plan.md.
+ *
+ * Records that reach git are ingested as-is by the brain, so a malformed one is
+ * the expensive kind of bug — reject it at the seam, never after the commit.
+ */
+
+/** YYYY-MM-DD calendar date (D8) — never a UTC slice of a timestamp. */
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD calendar date");
+
+const isoTimestamp = z.string().datetime({ offset: true });
+
+/** The D8 zone when neither the program nor the server config names one. */
+export const DEFAULT_TIME_ZONE = "America/Los_Angeles";
+
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** True for a zone this runtime's Intl knows — an IANA name like `Asia/Tokyo`. */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * YYYY-MM-DD of `instant` in `timeZone` — the calendar-date rule (D8), here so
+ * the client's stamp and the server's fallback can't disagree.
+ */
+export function calendarDateIn(instant: Date, timeZone: string): string {
+  let format = dateFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dateFormats.set(timeZone, format);
+  }
+  return format.format(instant);
+}
+
+const timeZone = z
+  .string()
+  .refine(isTimeZone, "Expected an IANA time zone (e.g. America/New_York)");
+
+export const setResultSchema = z.object({
+  setNumber: z.number().int().positive(),
+  reps: z.number().nonnegative(),
+  weight: z.number().nonnegative().optional(),
+  weightUnit: z.enum(["lbs", "kg"]),
+  rir: z.number().nonnegative().optional(),
+  completed: z.boolean(),
+  skipped: z.boolean().optional(),
+  notes: z.string().optional(),
+  /** ISO timestamp the set was logged — origin for the rest timer. */
+  loggedAt: isoTimestamp.optional(),
+});
+
+export const exerciseSchema = z.object({
+  /** `<sessionId>-e<n>` — opaque, minted by the brain. */
+  id: z.string().min(1),
+  name: z.string().min(1),
+  groupLabel: z.string().optional(),
+  warmupSets: z.number().int().nonnegative(),
+  workingSets: z.number().int().nonnegative(),
+  reps: z.string(),
+  targetLoad: z.string(),
+  restSeconds: z.number().nonnegative(),
+  notes: z.string().optional(),
+  userNotes: z.string().optional(),
+  sets: z.array(setResultSchema),
+  skipped: z.boolean().optional(),
+});
+
+export const prescribedSessionSchema = z.object({
+  /** `s-<date>-<slug>` — absolute and opaque; never parsed for position. */
+  id: z.string().min(1),
+  /** 'lower' | 'upper' | 'cardio' | … — brain-owned vocabulary. */
+  theme: z.string(),
+  name: z.string().trim().min(1),
+  /** An optimistic hint, never a commitment. */
+  plannedDate: calendarDate.optional(),
+  warmup: z.array(z.string()).optional(),
+  notes: z.string().optional(),
+  exercises: z.array(exerciseSchema),
+});
+
+export const sealReasonSchema = z.enum(["departure", "auto", "chat"]);
+
+export const performedSessionSchema = prescribedSessionSchema.extend({
+  /** Calendar date of the first logged set, in `timeZone` (D8). */
+  performedDate: calendarDate,
+  /**
+   * The zone `performedDate` was taken in: the athlete's zone at the first
+   * logged set. A later zone change (travel) never re-dates the session.
+   * Absent on older records, which are America/Los_Angeles.
+   */
+  timeZone: timeZone.optional(),
+  startedAt: isoTimestamp.optional(),
+  departedAt: isoTimestamp.optional(),
+  sealed: sealReasonSchema.optional(),
+  /** The felt-note from departure. */
+  note: z.string().optional(),
+  /** The program generation this session was prescribed from (stamped on first touch). */
+  programGeneration: z.number().int().nonnegative().optional(),
+});
+
+export const programBlockSchema = z.object({
+  focus: z.string(),
+  startedOn: calendarDate.optional(),
+  note: z.string().optional(),
+});
+
+/** The program envelope the brain writes (program.json). */
+export const programEnvelopeSchema = z.object({
+  schema: z.number().int(),
+  /** Monotonic — all freshness behavior keys off this. */
+  generation: z.number().int().nonnegative(),
+  generatedAt: isoTimestamp,
+  /** Log filenames ingested INTO this generation (read receipts). */
+  basedOn: z.array(z.string()),
+  /** One coach-voiced line for the "while you were away" card. */
+  changelog: z.string(),
+  block: programBlockSchema.optional(),
+  /** The athlete's zone for calendar dates (D8); wins over the server's config. */
+  timeZone: timeZone.optional(),
+  /** Ordered; first of a theme = next on tap. */
+  queue: z.array(prescribedSessionSchema),
+  /** Ingested records, embedded for history display. */
+  history: z.array(performedSessionSchema),
+});
+
+export type SetResult = z.infer<typeof setResultSchema>;
+export type Exercise = z.infer<typeof exerciseSchema>;
+export type PrescribedSession = z.infer<typeof prescribedSessionSchema>;
+export type SealReason = z.infer<typeof sealReasonSchema>;
+export type PerformedSession = z.infer<typeof performedSessionSchema>;
+export type ProgramBlock = z.infer<typeof programBlockSchema>;
+export type ProgramEnvelope = z.infer<typeof programEnvelopeSchema>;
+
+/** One failing field: a dotted path into the record (`exercises.0.sets.2.reps`) + why. */
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+/** Flatten a ZodError into the `{ path, message }[]` list a 422 body carries. */
+export function contractIssues(error: z.ZodError): ContractIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+}